@@ -3,14 +3,16 @@ import { ServerManager } from './server-manager';
 import { WalletManager } from './wallet-manager';
 import { UserManager } from './user-manager';
 import { ContractManager } from './contract-manager';
+import { ExitManager } from './exit-manager';
 import { UIManager } from './ui-manager';
-import { RelativeTimelock } from '@arkade-os/sdk';
+import { AmendableTerms, ArbitratorFeeTerms, EscrowContract, Milestone, PayoutSplit, StoredTimelock, UnilateralDelays, User } from './types';
 import { CommunicationManager } from './communication-manager';
 
 export class ArkEscrowApp {
     private notificationManager!: NotificationManager;
     private serverManager!: ServerManager;
     private walletManager!: WalletManager;
+    private exitManager!: ExitManager;
     private userManager!: UserManager;
     private contractManager!: ContractManager;
     private uiManager!: UIManager;
@@ -33,6 +35,8 @@ export class ArkEscrowApp {
             // Server
             arkServerUrl: document.getElementById('arkServerUrl') as HTMLInputElement,
             connectServer: document.getElementById('connectServer') as HTMLButtonElement,
+            esploraUrl: document.getElementById('esploraUrl') as HTMLInputElement,
+            proposalExpiry: document.getElementById('proposalExpiry') as HTMLInputElement,
             serverStatus: document.getElementById('serverStatus') as HTMLDivElement,
             
             // Wallet
@@ -69,6 +73,17 @@ export class ArkEscrowApp {
             buyerSelect: document.getElementById('buyerSelect') as HTMLSelectElement,
             sellerSelect: document.getElementById('sellerSelect') as HTMLSelectElement,
             arbitratorSelect: document.getElementById('arbitratorSelect') as HTMLSelectElement,
+            arbitratorThreshold: document.getElementById('arbitratorThreshold') as HTMLInputElement,
+            contractAmount: document.getElementById('contractAmount') as HTMLInputElement,
+            contractMilestones: document.getElementById('contractMilestones') as HTMLTextAreaElement,
+            arbitratorFeeValue: document.getElementById('arbitratorFeeValue') as HTMLInputElement,
+            arbitratorFeeKind: document.getElementById('arbitratorFeeKind') as HTMLSelectElement,
+            directSettleDiscount: document.getElementById('directSettleDiscount') as HTMLInputElement,
+            refundDeadline: document.getElementById('refundDeadline') as HTMLInputElement,
+            deliveryHash: document.getElementById('deliveryHash') as HTMLInputElement,
+            unilateralReleaseDelay: document.getElementById('unilateralReleaseDelay') as HTMLInputElement,
+            unilateralRefundDelay: document.getElementById('unilateralRefundDelay') as HTMLInputElement,
+            unilateralDirectDelay: document.getElementById('unilateralDirectDelay') as HTMLInputElement,
             contractDescription: document.getElementById('contractDescription') as HTMLInputElement,
             createContract: document.getElementById('createContract') as HTMLButtonElement,
             refreshContracts: document.getElementById('refreshContracts') as HTMLButtonElement,
@@ -83,6 +98,7 @@ export class ArkEscrowApp {
         this.notificationManager = new NotificationManager();
         this.serverManager = new ServerManager(this.notificationManager);
         this.walletManager = new WalletManager(this.notificationManager, this.serverManager);
+        this.exitManager = new ExitManager(this.notificationManager, this.serverManager);
         
         // Initialize communication manager with localStorage by default
         // Will switch to Nostr when wallet is available
@@ -91,7 +107,7 @@ export class ArkEscrowApp {
         const communicationProvider = this.communicationManager.getProvider();
         
         this.userManager = new UserManager(this.notificationManager, communicationProvider);
-        this.contractManager = new ContractManager(this.notificationManager, this.userManager, this.serverManager, this.walletManager, communicationProvider);
+        this.contractManager = new ContractManager(this.notificationManager, this.userManager, this.serverManager, this.walletManager, this.exitManager, communicationProvider);
         this.uiManager = new UIManager(
             this.elements,
             this.walletManager,
@@ -104,6 +120,7 @@ export class ArkEscrowApp {
     private setupEventListeners(): void {
         // Server
         this.elements.connectServer.addEventListener('click', () => this.connectToServer());
+        this.elements.proposalExpiry.addEventListener('change', () => this.updateProposalExpiry());
         
         // Wallet
         this.elements.createWallet.addEventListener('click', () => this.createWallet());
@@ -179,6 +196,7 @@ export class ArkEscrowApp {
         
         const url = this.elements.arkServerUrl.value.trim();
         this.serverManager.setServerUrl(url);
+        this.exitManager.setExplorerUrl(this.elements.esploraUrl.value.trim());
         
         const connected = await this.serverManager.connectToServer();
         if (connected) {
@@ -188,6 +206,16 @@ export class ArkEscrowApp {
         }
     }
     
+    private updateProposalExpiry(): void {
+        try {
+            this.contractManager.setProposalExpiryHours(Number(this.elements.proposalExpiry.value));
+            this.notificationManager.showSuccess(`New proposals expire after ${this.elements.proposalExpiry.value} hours`);
+        } catch (error: any) {
+            this.notificationManager.showError(error.message);
+            this.elements.proposalExpiry.value = String(this.contractManager.getProposalExpiryHours());
+        }
+    }
+    
     private async disconnectFromServer(): Promise<void> {
         // Reset the server manager state
         this.serverManager.reset();
@@ -257,29 +285,59 @@ export class ArkEscrowApp {
     private async createEscrowContract(): Promise<void> {
         const buyerId = this.elements.buyerSelect.value;
         const sellerId = this.elements.sellerSelect.value;
-        const arbitratorId = this.elements.arbitratorSelect.value;
+        const arbitratorIds = Array.from(this.elements.arbitratorSelect.selectedOptions as HTMLCollectionOf<HTMLOptionElement>)
+            .map(option => option.value);
+        const arbitratorThreshold = parseInt(this.elements.arbitratorThreshold.value, 10);
+        const amount = Number(this.elements.contractAmount.value);
+        const arbitratorFee: ArbitratorFeeTerms | undefined = this.elements.arbitratorFeeValue.value.trim()
+            ? {
+                kind: this.elements.arbitratorFeeKind.value,
+                value: Number(this.elements.arbitratorFeeValue.value),
+                directSettleDiscount: Number(this.elements.directSettleDiscount.value || 0),
+            }
+            : undefined;
         const description = this.elements.contractDescription.value;
+        const refundDeadlineValue = this.elements.refundDeadline.value;
+        const refundDeadline = refundDeadlineValue
+            ? Math.floor(new Date(refundDeadlineValue).getTime() / 1000)
+            : undefined;
+        const deliveryHash = this.elements.deliveryHash.value.trim() || undefined;
+        const milestones = this.parseMilestones(this.elements.contractMilestones.value);
+        if (!milestones) {
+            this.notificationManager.showError('Invalid milestones. Use one "amount | description | YYYY-MM-DD" per line, the date being optional');
+            return;
+        }
         const currentWallet = this.walletManager.getCurrentWallet();
         
-        // Get server info to fetch the unilateral exit delay
-        const serverInfo = await this.serverManager.getProvider()?.getInfo();
-        if (!serverInfo) {
+        if (!this.serverManager.isServerConnected()) {
             this.notificationManager.showError('Not connected to server');
             return;
         }
         
-        // Convert server's unilateralExitDelay to RelativeTimelock object
-        const unilateralDelay: RelativeTimelock = {
-            type: serverInfo.unilateralExitDelay < 512 ? "blocks" : "seconds",
-            value: serverInfo.unilateralExitDelay,
+        // Per-path delays are entered in the server's exit delay unit; blank fields use the server minimum
+        const serverDelay = this.serverManager.getUnilateralDelay();
+        const readDelay = (input: HTMLInputElement): StoredTimelock => ({
+            type: serverDelay.type,
+            value: input.value.trim() ? Number(input.value) : Number(serverDelay.value),
+        });
+        const unilateralDelays: UnilateralDelays = {
+            release: readDelay(this.elements.unilateralReleaseDelay),
+            refund: readDelay(this.elements.unilateralRefundDelay),
+            direct: readDelay(this.elements.unilateralDirectDelay),
         };
         await this.contractManager.createEscrowContract(
             buyerId,
             sellerId,
-            arbitratorId,
+            arbitratorIds,
+            arbitratorThreshold,
+            amount,
             description,
             currentWallet,
-            unilateralDelay
+            unilateralDelays,
+            refundDeadline,
+            deliveryHash,
+            arbitratorFee,
+            milestones
         );
         
         this.uiManager.clearContractForm();
@@ -302,12 +360,279 @@ export class ArkEscrowApp {
             return;
         }
         
-        await this.contractManager.executeContractAction(contract, action, currentWallet);
+        // Amendments name the terms to change, signed by every party before they apply
+        if (action.toLowerCase() === 'propose amendment') {
+            const input = window.prompt('Enter the terms to change as key=value pairs separated by ";" (e.g. amount=60000; refundDeadline=2026-12-31).\nKeys: description, amount, refundDeadline, deliveryHash, arbitrators (comma-separated names), arbitratorThreshold');
+            if (!input) {
+                return;
+            }
+            const changes = this.parseAmendment(input);
+            if (!changes) {
+                this.notificationManager.showError('Invalid amendment. Use key=value pairs with known keys and user names');
+                return;
+            }
+            await this.contractManager.proposeAmendment(contract, changes, currentWallet);
+            this.uiManager.updateContractsUI();
+            return;
+        }
+
+        // Buyer and seller swap out an arbitrator who has become unavailable
+        if (action.toLowerCase() === 'replace arbitrator') {
+            const current = window.prompt(`Name of the arbitrator to replace (${contract.arbitrators.map(arbitrator => arbitrator.name).join(', ')}):`);
+            if (!current) {
+                return;
+            }
+            const replaced = contract.arbitrators.find(arbitrator => arbitrator.name === current.trim());
+            if (!replaced) {
+                this.notificationManager.showError(`${current} is not an arbitrator on this contract`);
+                return;
+            }
+            const name = window.prompt('Name of the new arbitrator:');
+            if (!name) {
+                return;
+            }
+            const replacement = this.userManager.getUsers().find(user => user.name === name.trim());
+            if (!replacement) {
+                this.notificationManager.showError(`User ${name} not found`);
+                return;
+            }
+            await this.contractManager.replaceArbitrator(contract, replaced.pubkey, replacement, currentWallet);
+            this.uiManager.updateContractsUI();
+            return;
+        }
+
+        // Disputes hand the outcome to the arbitrators, who rule on the evidence
+        if (action.toLowerCase() === 'open dispute') {
+            const reason = window.prompt('What is the dispute about?');
+            if (!reason) {
+                return;
+            }
+            await this.contractManager.openDispute(contract, reason, currentWallet);
+            this.uiManager.updateContractsUI();
+            return;
+        }
+        if (action.toLowerCase() === 'issue ruling') {
+            const decision = window.prompt('Ruling: enter "release", "refund" or a buyer/seller split (e.g. 6000/4000 or 60%/40%):');
+            if (!decision) {
+                return;
+            }
+            const normalized = decision.trim().toLowerCase();
+            const split = normalized === 'release' || normalized === 'refund' ? undefined : this.parseSplit(normalized);
+            if (!split && normalized !== 'release' && normalized !== 'refund') {
+                this.notificationManager.showError('Invalid ruling. Use release, refund or a split like 6000/4000');
+                return;
+            }
+            const reasoning = window.prompt('Explain the ruling:');
+            if (!reasoning) {
+                return;
+            }
+            const rulingAction = split ? 'Arbitrate Split' : normalized === 'release' ? 'Release' : 'Refund';
+            const arbitratorSet = this.promptArbitratorSet(contract, rulingAction, currentWallet.pubkey);
+            if (arbitratorSet === null) {
+                return;
+            }
+            await this.contractManager.issueRuling(contract, {
+                decision: split ? 'split' : normalized as 'release' | 'refund',
+                split: split ?? undefined,
+                reasoning
+            }, currentWallet, arbitratorSet);
+            this.uiManager.updateContractsUI();
+            return;
+        }
+
+        // Direct settlements and arbitrated rulings can pay out any split
+        let split: PayoutSplit | undefined;
+        if (['direct settle', 'arbitrate split'].includes(action.toLowerCase())) {
+            const input = window.prompt('Enter the buyer/seller split in sats or percent (e.g. 6000/4000 or 60%/40%). Leave blank for 50/50:');
+            if (input === null) {
+                return;
+            }
+            if (input.trim()) {
+                const parsed = this.parseSplit(input);
+                if (!parsed) {
+                    this.notificationManager.showError('Invalid split. Use buyer/seller amounts like 6000/4000 or 60%/40%');
+                    return;
+                }
+                split = parsed;
+            }
+        }
+
+        // Without agreed fee terms the ruling arbitrator may name a fee
+        let arbitratorFee: number | undefined;
+        if (action.toLowerCase() === 'arbitrate split' && !contract.arbitratorFee) {
+            const input = window.prompt('Enter your arbitrator fee in sats (leave blank for none):');
+            if (input === null) {
+                return;
+            }
+            arbitratorFee = input.trim() ? Number(input) : undefined;
+        }
+
+        // A partial release pays part of the escrow to the seller and keeps the rest locked
+        let releaseAmount: number | undefined;
+        if (action.toLowerCase() === 'partial release') {
+            const input = window.prompt('Enter the amount to release to the seller (sats):');
+            if (!input) {
+                return;
+            }
+            releaseAmount = Number(input);
+        }
+
+        // Claiming through the hashlock reveals the secret the buyer handed over
+        let secret: string | undefined;
+        if (action.toLowerCase() === 'claim with secret') {
+            secret = window.prompt('Enter the delivery secret received from the buyer:') ?? undefined;
+            if (!secret) {
+                return;
+            }
+        }
+        
+        // With more arbitrators than the threshold, the initiator picks who cosigns
+        const arbitratorSet = this.promptArbitratorSet(contract, action, currentWallet.pubkey);
+        if (arbitratorSet === null) {
+            return;
+        }
+        
+        await this.contractManager.executeContractAction(contract, action, currentWallet, secret, split, arbitratorFee, releaseAmount, arbitratorSet);
         
         // Refresh the contracts UI after action
         this.uiManager.updateContractsUI();
     }
 
+    /**
+     * Submit the statement and file entered in a contract's dispute thread
+     */
+    async submitEvidence(contractIndex: number): Promise<void> {
+        const currentWallet = this.walletManager.getCurrentWallet();
+        if (!currentWallet) {
+            this.notificationManager.showError('Wallet not found');
+            return;
+        }
+
+        const contract = this.contractManager.getContractsForUser(currentWallet.pubkey)[contractIndex];
+        if (!contract) {
+            this.notificationManager.showError('Contract not found');
+            return;
+        }
+
+        const textInput = document.getElementById(`evidenceText-${contractIndex}`) as HTMLTextAreaElement | null;
+        const fileInput = document.getElementById(`evidenceFile-${contractIndex}`) as HTMLInputElement | null;
+        const selected = fileInput?.files?.[0];
+        const file = selected
+            ? { name: selected.name, mimeType: selected.type, data: new Uint8Array(await selected.arrayBuffer()) }
+            : undefined;
+
+        await this.contractManager.submitEvidence(contract, { text: textInput?.value, file }, currentWallet);
+        this.uiManager.updateContractsUI();
+    }
+
+    /**
+     * Ask which arbitrators will cosign, so an unavailable one can be left out
+     * @returns The chosen pubkeys, undefined when no choice is needed, or null when cancelled
+     */
+    private promptArbitratorSet(contract: EscrowContract, action: string, pubkey: string): string[] | undefined | null {
+        if (!this.contractManager.needsArbitratorChoice(contract, action)) {
+            return undefined;
+        }
+        const others = contract.arbitrators.filter(arbitrator => arbitrator.pubkey !== pubkey);
+        const isArbitrator = others.length < contract.arbitrators.length;
+        const needed = contract.arbitratorThreshold - (isArbitrator ? 1 : 0);
+        const input = window.prompt(`Choose ${needed} ${isArbitrator ? 'co-' : ''}arbitrator(s) to sign, comma-separated (${others.map(arbitrator => arbitrator.name).join(', ')}):`);
+        if (input === null) {
+            return null;
+        }
+        const names = input.split(',').map(name => name.trim()).filter(Boolean);
+        const chosen = names.map(name => others.find(arbitrator => arbitrator.name === name));
+        if (chosen.some(arbitrator => !arbitrator) || chosen.length !== needed) {
+            this.notificationManager.showError(`Choose exactly ${needed} of: ${others.map(arbitrator => arbitrator.name).join(', ')}`);
+            return null;
+        }
+        return [...(isArbitrator ? [pubkey] : []), ...chosen.map(arbitrator => arbitrator!.pubkey)];
+    }
+
+    /**
+     * Parse a "buyer/seller" split, either both in sats or both in percent
+     */
+    private parseSplit(value: string): PayoutSplit | null {
+        const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(%?)\s*\/\s*(\d+(?:\.\d+)?)\s*(%?)$/);
+        if (!match || match[2] !== match[4]) {
+            return null;
+        }
+        return {
+            buyer: Number(match[1]),
+            seller: Number(match[3]),
+            unit: match[2] ? 'percent' : 'sats'
+        };
+    }
+
+    /**
+     * Parse "key=value" amendment pairs separated by semicolons
+     */
+    private parseAmendment(value: string): AmendableTerms | null {
+        const changes: AmendableTerms = {};
+        for (const pair of value.split(';').map(part => part.trim()).filter(Boolean)) {
+            const separator = pair.indexOf('=');
+            if (separator < 0) {
+                return null;
+            }
+            const key = pair.slice(0, separator).trim();
+            const raw = pair.slice(separator + 1).trim();
+            switch (key) {
+                case 'description':
+                    changes.description = raw;
+                    break;
+                case 'amount':
+                    changes.amount = Number(raw);
+                    break;
+                case 'arbitratorThreshold':
+                    changes.arbitratorThreshold = Number(raw);
+                    break;
+                case 'deliveryHash':
+                    changes.deliveryHash = raw.toLowerCase();
+                    break;
+                case 'refundDeadline': {
+                    const deadline = new Date(raw).getTime();
+                    if (isNaN(deadline)) {
+                        return null;
+                    }
+                    changes.refundDeadline = Math.floor(deadline / 1000);
+                    break;
+                }
+                case 'arbitrators': {
+                    const users = this.userManager.getUsers();
+                    const arbitrators = raw.split(',').map(name => users.find(user => user.name === name.trim()));
+                    if (arbitrators.some(arbitrator => !arbitrator)) {
+                        return null;
+                    }
+                    changes.arbitrators = arbitrators as User[];
+                    break;
+                }
+                default:
+                    return null;
+            }
+        }
+        return Object.keys(changes).length > 0 ? changes : null;
+    }
+
+    /**
+     * Parse one "amount | description | YYYY-MM-DD" milestone per line, the deadline being optional
+     */
+    private parseMilestones(value: string): Milestone[] | null {
+        const milestones: Milestone[] = [];
+        for (const line of value.split('\n').map(line => line.trim()).filter(Boolean)) {
+            const [amount, description, deadline] = line.split('|').map(part => part.trim());
+            const deadlineMs = deadline ? new Date(deadline).getTime() : undefined;
+            if (!amount || !description || (deadlineMs !== undefined && isNaN(deadlineMs))) {
+                return null;
+            }
+            milestones.push({
+                amount: Number(amount),
+                description,
+                deadline: deadlineMs !== undefined ? Math.floor(deadlineMs / 1000) : undefined
+            });
+        }
+        return milestones;
+    }
+
     async approvePendingTransaction(contractIndex: number): Promise<void> {
         const currentWallet = this.walletManager.getCurrentWallet();
         if (!currentWallet) {
@@ -330,6 +655,60 @@ export class ArkEscrowApp {
         this.uiManager.updateContractsUI();
     }
 
+    async finalizePendingTransaction(contractIndex: number): Promise<void> {
+        const currentWallet = this.walletManager.getCurrentWallet();
+        if (!currentWallet) {
+            this.notificationManager.showError('Wallet not found');
+            return;
+        }
+
+        const contract = this.contractManager.getContractsForUser(currentWallet.pubkey)[contractIndex];
+        if (!contract) {
+            this.notificationManager.showError('Contract not found');
+            return;
+        }
+
+        await this.contractManager.finalizePendingTransaction(contract);
+        this.uiManager.updateContractsUI();
+    }
+
+    /**
+     * Clear rejected and expired proposals, and pick up transactions a
+     * previous session submitted but didn't finalize
+     */
+    private async maintainPendingTransactions(): Promise<void> {
+        const currentWallet = this.walletManager.getCurrentWallet();
+        if (!currentWallet || !this.serverManager.isServerConnected()) {
+            return;
+        }
+        try {
+            await this.contractManager.clearStalePendingTransactions(currentWallet);
+            await this.contractManager.resumePendingTransactions(currentWallet);
+        } catch (error) {
+            console.error('Failed to maintain pending transactions:', error);
+        }
+    }
+
+    async cancelPendingTransaction(contractIndex: number): Promise<void> {
+        const currentWallet = this.walletManager.getCurrentWallet();
+        if (!currentWallet) {
+            this.notificationManager.showError('Wallet not found');
+            return;
+        }
+
+        const contract = this.contractManager.getContractsForUser(currentWallet.pubkey)[contractIndex];
+        if (!contract) {
+            this.notificationManager.showError('Contract not found');
+            return;
+        }
+
+        if (!confirm(`Cancel the pending ${contract.pendingTransaction?.action} proposal?`)) {
+            return;
+        }
+        await this.contractManager.cancelPendingTransaction(contract, currentWallet);
+        this.uiManager.updateContractsUI();
+    }
+
     async rejectPendingTransaction(contractIndex: number): Promise<void> {
         const currentWallet = this.walletManager.getCurrentWallet();
         if (!currentWallet) {
@@ -377,6 +756,8 @@ export class ArkEscrowApp {
         
         // Set the server URL in the input field
         this.elements.arkServerUrl.value = savedUrl;
+        this.elements.esploraUrl.value = this.exitManager.getSavedExplorerUrl() || '';
+        this.elements.proposalExpiry.value = String(this.contractManager.getProposalExpiryHours());
         
         // Connect automatically
         const connected = await this.serverManager.connectToServer(savedUrl);
@@ -392,12 +773,15 @@ export class ArkEscrowApp {
         this.uiManager.updateUsersUI();
         this.uiManager.updateContractsUI();
         this.uiManager.updateWalletDependentUI();
+        await this.maintainPendingTransactions();
         
-        // Auto-refresh users and contracts every 5 seconds
+        // Auto-refresh users and contracts every 5 seconds. Contracts can arrive
+        // after startup, so unfinished transactions are looked for each time.
         setInterval(() => {
             if (this.serverManager.isServerConnected()) {
                 this.uiManager.updateUsersUI();
                 this.uiManager.updateContractsUI();
+                this.maintainPendingTransactions();
             }
         }, 5000);
     }
@@ -0,0 +1,95 @@
+import { schnorr } from '@noble/curves/secp256k1';
+import { hex } from '@scure/base';
+import { AuditEntry, AuditEventType, EscrowContract, WalletInfo } from './types';
+
+/**
+ * Outcome of checking one audit log entry
+ */
+export type AuditEntryVerification = 'valid' | 'invalid_signature' | 'missing_previous' | 'not_a_party';
+
+/**
+ * Signed, append-only event log kept on each contract. Every entry is signed
+ * by its author together with the contract address and links to the latest
+ * entry the author had seen, so edited or dropped entries show up when verifying.
+ */
+export class AuditLog {
+    /**
+     * Sign a new entry with the current wallet and append it to the contract's log
+     */
+    append(
+        contract: EscrowContract,
+        type: AuditEventType,
+        currentWallet: WalletInfo,
+        fields: Pick<AuditEntry, 'action' | 'txid' | 'details'> = {}
+    ): AuditEntry {
+        const log = contract.auditLog ?? [];
+        const unsigned = {
+            prev: log[log.length - 1]?.id,
+            type,
+            author: currentWallet.pubkey,
+            timestamp: Date.now(),
+            ...fields
+        };
+        const hash = this.hashEntry(contract.arkAddress, unsigned);
+        const entry: AuditEntry = {
+            ...unsigned,
+            id: hex.encode(hash),
+            signature: hex.encode(schnorr.sign(hash, hex.decode(currentWallet.privateKey)))
+        };
+        contract.auditLog = [...log, entry];
+        return entry;
+    }
+
+    /**
+     * Check every entry's signature, that its author is one of the given parties,
+     * and that the entry it follows is still in the log
+     */
+    verify(contract: EscrowContract, parties: string[]): AuditEntryVerification[] {
+        const log = contract.auditLog ?? [];
+        const ids = new Set(log.map(entry => entry.id));
+        return log.map(entry => {
+            const { id, signature, ...fields } = entry;
+            const hash = this.hashEntry(contract.arkAddress, fields);
+            if (hex.encode(hash) !== id || !this.verifySignature(signature, hash, entry.author)) {
+                return 'invalid_signature';
+            }
+            // Anyone can sign an entry, only the contract's parties can author one
+            if (!parties.includes(entry.author)) {
+                return 'not_a_party';
+            }
+            return entry.prev && !ids.has(entry.prev) ? 'missing_previous' : 'valid';
+        });
+    }
+
+    /**
+     * Combine two copies of a log without losing any entry either of them has
+     */
+    merge(known: AuditEntry[] = [], incoming: AuditEntry[] = []): AuditEntry[] {
+        const ids = new Set(incoming.map(entry => entry.id));
+        return [...incoming, ...known.filter(entry => !ids.has(entry.id))]
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    private hashEntry(arkAddress: string, fields: Omit<AuditEntry, 'id' | 'signature'>): Uint8Array {
+        // Fixed field order so every client hashes the same bytes
+        const canonical = JSON.stringify([
+            arkAddress,
+            fields.prev ?? null,
+            fields.type,
+            fields.author,
+            fields.timestamp,
+            fields.action ?? null,
+            fields.txid ?? null,
+            fields.details ?? null
+        ]);
+        return schnorr.utils.taggedHash('ark-escrow/audit', new TextEncoder().encode(canonical));
+    }
+
+    private verifySignature(signature: string, hash: Uint8Array, pubkey: string): boolean {
+        try {
+            return schnorr.verify(hex.decode(signature), hash, hex.decode(pubkey));
+        } catch (error) {
+            return false;
+        }
+    }
+}
@@ -1,31 +1,61 @@
 import { VEscrow } from './escrow';
-import { CSVMultisigTapscript, buildOffchainTx, RelativeTimelock, ArkAddress } from '@arkade-os/sdk';
-import { hex } from '@scure/base';
-import { EscrowContract, EscrowState, WalletInfo } from './types';
+import { CSVMultisigTapscript, buildOffchainTx, RelativeTimelock, ArkAddress, setArkPsbtField, ConditionWitness, VirtualCoin, P2A } from '@arkade-os/sdk';
+import { base64, hex } from '@scure/base';
+import { AmendableTerms, ArbitratorFeeTerms, AuditEntry, ContractAcceptance, ContractAmendment, ContractVerification, DisputeEvidence, DisputeRuling, EscrowContract, EscrowState, Milestone, MilestoneStatus, Payout, PayoutSplit, ServerTerms, SignatureCheck, StoredTimelock, TransactionReview, UnilateralDelays, User, WalletInfo } from './types';
 import { NotificationManager } from './notification-manager';
 import { UserManager } from './user-manager';
 import { ServerManager } from './server-manager';
 import { WalletManager } from './wallet-manager';
+import { ExitManager } from './exit-manager';
+import { AuditEntryVerification, AuditLog } from './audit-log';
 import { CommunicationProvider } from './communication-provider';
-import { Transaction } from '@scure/btc-signer';
+import { p2tr, Script, SigHash, TaprootControlBlock, Transaction } from '@scure/btc-signer';
+import { tapLeafHash } from '@scure/btc-signer/payment';
+import { hash160, sha256, sha256x2 } from '@scure/btc-signer/utils';
+import { schnorr } from '@noble/curves/secp256k1';
+
+/**
+ * Terms committed in the escrow script: amending any of them moves the funds to a new address
+ */
+const SCRIPT_TERMS: (keyof AmendableTerms)[] = ['arbitrators', 'arbitratorThreshold', 'refundDeadline', 'deliveryHash', 'unilateralDelays'];
+
+/**
+ * Evidence travels base64-encoded inside the contract's Nostr event, next to the
+ * audit log and any pending PSBTs, and relays commonly cap events at 64 KB.
+ * Evidence is refused once the serialized contract would pass MAX_CONTRACT_SIZE,
+ * which keeps some room for a later pending transaction but guarantees nothing.
+ */
+const MAX_EVIDENCE_BYTES = 16 * 1024;
+const MAX_CONTRACT_SIZE = 40 * 1024; // Characters of the contract as JSON
+
+/**
+ * Proposals without an expiry of their own, and the default for new ones
+ */
+const DEFAULT_PROPOSAL_EXPIRY_HOURS = 24;
 
 export class ContractManager {
     private notificationManager: NotificationManager;
     private userManager: UserManager;
     private serverManager: ServerManager;
     private walletManager: WalletManager;
+    private exitManager: ExitManager;
     private communicationProvider: CommunicationProvider;
     private contracts: Map<string, EscrowContract> = new Map();
+    private auditLog = new AuditLog();
+    private resumedTransactions = new Set<string>();
+    private sweeping = false;
 
     constructor(notificationManager: NotificationManager, 
         userManager: UserManager, 
         serverManager: ServerManager,
         walletManager: WalletManager,
+        exitManager: ExitManager,
         communicationProvider: CommunicationProvider) {
         this.notificationManager = notificationManager;
         this.userManager = userManager;
         this.serverManager = serverManager;
         this.walletManager = walletManager;
+        this.exitManager = exitManager;
         this.communicationProvider = communicationProvider;
         this.initializeContracts();
     }
@@ -46,67 +76,933 @@ export class ContractManager {
     private async loadContracts(): Promise<void> {
         try {
             const contracts = await this.communicationProvider.getContracts();
-            this.contracts.clear();
-            contracts.forEach(contract => {
+            this.updateContractsFromProvider(contracts);
+        } catch (error) {
+            console.error('Failed to load contracts from communication provider:', error);
+        }
+    }
+
+    /**
+     * Update local contracts map when communication provider notifies of changes
+     */
+    private updateContractsFromProvider(contracts: EscrowContract[]): void {
+        const previous = new Map(this.contracts);
+        this.contracts.clear();
+        contracts.forEach(contract => {
+            // Contracts from before arbitrator panels name a single arbitrator
+            const legacy = contract as EscrowContract & { arbitrator?: User };
+            if (!contract.arbitrators && legacy.arbitrator) {
+                contract.arbitrators = [legacy.arbitrator];
+                delete legacy.arbitrator;
+            }
+            contract.arbitrators ??= [];
+            contract.arbitratorThreshold ??= 1;
+
+            // Payout addresses aren't in the script, so a copy must not swap out ones a party already signed
+            const knownCopy = previous.get(contract.arkAddress);
+            if (knownCopy && JSON.stringify(this.getPayoutAddresses(knownCopy)) !== JSON.stringify(this.getPayoutAddresses(contract))) {
+                const termsHash = this.getTermsHash(knownCopy);
+                if ((knownCopy.acceptances ?? []).some(acceptance => this.verifyAcceptance(acceptance, termsHash))) {
+                    console.warn('Ignoring contract copy with changed payout addresses:', contract.arkAddress);
+                    this.contracts.set(contract.arkAddress, knownCopy);
+                    return;
+                }
+            }
+
+            // Tampered contracts are kept so the UI can flag them, but no action is allowed on them
+            if (this.verifyContract(contract) === 'tampered') {
+                console.warn('Contract address does not match its terms:', contract.arkAddress);
+            }
+
+            // Parties accept concurrently, so keep acceptances a newer copy doesn't carry yet
+            const known = previous.get(contract.arkAddress)?.acceptances ?? [];
+            const missing = known.filter(acceptance => !contract.acceptances?.some(other => other.pubkey === acceptance.pubkey));
+            if (missing.length > 0) {
+                contract.acceptances = [...(contract.acceptances ?? []), ...missing];
+            }
+
+            // Amendment signatures are also collected concurrently, so merge them for the same proposal
+            const pendingAmendment = this.getPendingAmendment(contract);
+            const knownAmendment = previous.get(contract.arkAddress)?.amendments?.find(amendment =>
+                amendment.version === pendingAmendment?.version && amendment.timestamp === pendingAmendment.timestamp);
+            if (pendingAmendment && knownAmendment) {
+                const missingSignatures = (knownAmendment.acceptances ?? []).filter(acceptance =>
+                    !pendingAmendment.acceptances?.some(other => other.pubkey === acceptance.pubkey));
+                if (missingSignatures.length > 0) {
+                    pendingAmendment.acceptances = [...(pendingAmendment.acceptances ?? []), ...missingSignatures];
+                }
+            }
+
+            // The audit log only ever grows, whichever copy arrives
+            const knownLog = previous.get(contract.arkAddress)?.auditLog;
+            if (knownLog?.length) {
+                contract.auditLog = this.auditLog.merge(knownLog, contract.auditLog);
+            }
+
+            // A stale copy must not roll a submitted transaction back to cosigning
+            const knownPending = previous.get(contract.arkAddress)?.pendingTransaction;
+            if (knownPending?.arkTxid && contract.pendingTransaction?.timestamp === knownPending.timestamp && !contract.pendingTransaction.arkTxid) {
+                contract.pendingTransaction = knownPending;
+            }
+            // Nor bring back a proposal its initiator cancelled
+            if (knownPending?.status === 'cancelled' && contract.pendingTransaction?.timestamp === knownPending.timestamp) {
+                contract.pendingTransaction = knownPending;
+            }
+            this.contracts.set(contract.arkAddress, contract);
+        });
+    }
+
+    /**
+     * Recompute the escrow address from the contract's parties and parameters
+     * and compare it with the advertised arkAddress. Contracts arrive as plain
+     * JSON from the communication provider, so the address can't be trusted.
+     */
+    verifyContract(contract: EscrowContract): ContractVerification {
+        // Legacy contracts depend on the connected server's terms
+        if (!contract.server && !this.serverManager.isServerConnected()) {
+            return 'unverified';
+        }
+
+        try {
+            return this.getContractAddress(contract).encode() === contract.arkAddress
+                ? 'verified'
+                : 'tampered';
+        } catch (error) {
+            // Malformed parameters can't produce the advertised address either
+            console.warn('Failed to rebuild contract script:', error);
+            return 'tampered';
+        }
+    }
+
+    /**
+     * Canonical hash of the terms each party signs to accept a contract.
+     * Display names and mutable state (acceptances, pending transactions) are
+     * left out, and object keys are sorted so every client hashes the same bytes.
+     * Payout addresses are included: they aren't part of the escrow script.
+     */
+    getTermsHash(contract: EscrowContract): Uint8Array {
+        const terms = {
+            arkAddress: contract.arkAddress,
+            buyer: contract.buyer.pubkey,
+            seller: contract.seller.pubkey,
+            arbitrators: contract.arbitrators.map(arbitrator => arbitrator.pubkey),
+            payoutAddresses: this.getPayoutAddresses(contract),
+            arbitratorThreshold: contract.arbitratorThreshold,
+            amount: contract.amount,
+            arbitratorFee: contract.arbitratorFee,
+            milestones: contract.milestones,
+            description: contract.description,
+            timestamp: contract.timestamp,
+            refundDeadline: contract.refundDeadline,
+            deliveryHash: contract.deliveryHash,
+            unilateralDelays: contract.unilateralDelays,
+            nonce: contract.nonce,
+            server: contract.server,
+            version: contract.version,
+            predecessor: contract.predecessor,
+        };
+        const canonical = JSON.stringify(terms, (_key, value) =>
+            value && typeof value === 'object' && !Array.isArray(value)
+                ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+                : value
+        );
+        return schnorr.utils.taggedHash('ark-escrow/terms', new TextEncoder().encode(canonical));
+    }
+
+    /**
+     * Parties whose acceptance of the terms is missing or doesn't verify
+     */
+    getPendingAcceptances(contract: EscrowContract): string[] {
+        return this.getMissingSignatures(contract, contract.acceptances ?? [], this.getParties(contract));
+    }
+
+    /**
+     * Where each party is paid off-chain: buyer, seller, then the arbitrators in panel order
+     */
+    private getPayoutAddresses(contract: EscrowContract): string[] {
+        return [contract.buyer, contract.seller, ...contract.arbitrators].map(user => user.address);
+    }
+
+    private getParties(contract: EscrowContract): string[] {
+        return [contract.buyer.pubkey, contract.seller.pubkey, ...contract.arbitrators.map(arbitrator => arbitrator.pubkey)];
+    }
+
+    /**
+     * Signers without a valid acceptance of the given terms
+     */
+    private getMissingSignatures(terms: EscrowContract, acceptances: ContractAcceptance[], signers: string[]): string[] {
+        const termsHash = this.getTermsHash(terms);
+        return signers.filter(pubkey => !acceptances.some(acceptance =>
+            acceptance.pubkey === pubkey && this.verifyAcceptance(acceptance, termsHash)
+        ));
+    }
+
+    /**
+     * Whether every party has signed the current terms
+     */
+    isAccepted(contract: EscrowContract): boolean {
+        return this.getPendingAcceptances(contract).length === 0;
+    }
+
+    private verifyAcceptance(acceptance: ContractAcceptance, termsHash: Uint8Array): boolean {
+        try {
+            return schnorr.verify(hex.decode(acceptance.signature), termsHash, hex.decode(acceptance.pubkey));
+        } catch (error) {
+            // Malformed signatures or keys simply don't count
+            return false;
+        }
+    }
+
+    private signAcceptance(contract: EscrowContract, currentWallet: WalletInfo): ContractAcceptance {
+        const signature = schnorr.sign(this.getTermsHash(contract), hex.decode(currentWallet.privateKey));
+        return { pubkey: currentWallet.pubkey, signature: hex.encode(signature), timestamp: Date.now() };
+    }
+
+    /**
+     * Sign the contract terms with the current wallet's identity key and share the acceptance
+     */
+    async acceptContract(contract: EscrowContract, currentWallet: WalletInfo): Promise<void> {
+        if (this.verifyContract(contract) !== 'verified') {
+            this.notificationManager.showError('Contract address does not match its terms. Refusing to accept it.');
+            return;
+        }
+
+        const pending = this.getPendingAcceptances(contract);
+        if (!this.getUserRole(contract, currentWallet.pubkey)) {
+            this.notificationManager.showError('Only the contract parties can accept its terms');
+            return;
+        }
+        if (!pending.includes(currentWallet.pubkey)) {
+            this.notificationManager.showInfo('You have already accepted this contract');
+            return;
+        }
+
+        try {
+            const others = (contract.acceptances ?? []).filter(acceptance => acceptance.pubkey !== currentWallet.pubkey);
+            contract.acceptances = [...others, this.signAcceptance(contract, currentWallet)];
+            this.auditLog.append(contract, 'accepted', currentWallet);
+            this.contracts.set(contract.arkAddress, contract);
+            await this.communicationProvider.updateContract(contract);
+
+            this.notificationManager.showSuccess(pending.length === 1
+                ? 'All parties have accepted. The escrow can now be funded.'
+                : 'Contract terms accepted');
+        } catch (error) {
+            console.error('Failed to accept contract:', error);
+            this.notificationManager.showError('Failed to accept contract');
+        }
+    }
+
+    /**
+     * The contract's audit log with the verification result of each entry
+     */
+    getAuditLog(contract: EscrowContract): { entry: AuditEntry, verification: AuditEntryVerification }[] {
+        const verifications = this.auditLog.verify(contract, this.getParties(contract));
+        return (contract.auditLog ?? []).map((entry, index) => ({ entry, verification: verifications[index] }));
+    }
+
+    /**
+     * The amendment still collecting signatures, if any
+     */
+    getPendingAmendment(contract: EscrowContract): ContractAmendment | undefined {
+        const latest = contract.amendments?.[contract.amendments.length - 1];
+        return latest?.status === 'proposed' ? latest : undefined;
+    }
+
+    /**
+     * Whether an amendment changes a parameter of the escrow script
+     */
+    changesScript(amendment: ContractAmendment): boolean {
+        return SCRIPT_TERMS.some(key => key in amendment.changes);
+    }
+
+    /**
+     * The contract as it reads once an amendment applies. Script changes yield
+     * a successor contract at a new address, linked back to this one.
+     */
+    private getAmendedContract(contract: EscrowContract, amendment: ContractAmendment): EscrowContract {
+        const amended: EscrowContract = {
+            ...contract,
+            ...amendment.changes,
+            version: amendment.version,
+            acceptances: amendment.acceptances,
+            pendingTransaction: undefined
+        };
+        if (this.changesScript(amendment)) {
+            amended.predecessor = contract.arkAddress;
+            amended.successor = undefined;
+            amended.arkAddress = this.getContractAddress(amended).encode();
+        }
+        return amended;
+    }
+
+    /**
+     * Everyone bound by the current or the amended terms signs an amendment
+     */
+    getAmendmentSigners(contract: EscrowContract, amendment: ContractAmendment): string[] {
+        // An unavailable arbitrator can't sign, so buyer and seller replace them on their own
+        if (amendment.replacedArbitrator) {
+            return [contract.buyer.pubkey, contract.seller.pubkey];
+        }
+        const amendedParties = this.getParties({ ...contract, ...amendment.changes });
+        return [...new Set([...this.getParties(contract), ...amendedParties])];
+    }
+
+    /**
+     * Signers who haven't validly signed the amended terms yet
+     */
+    getPendingAmendmentSignatures(contract: EscrowContract, amendment: ContractAmendment): string[] {
+        const amended = this.getAmendedContract(contract, amendment);
+        return this.getMissingSignatures(amended, amendment.acceptances, this.getAmendmentSigners(contract, amendment));
+    }
+
+    /**
+     * Propose new terms for a contract. The proposer signs the amended terms
+     * right away, and the amendment applies once every other party has too.
+     */
+    async proposeAmendment(contract: EscrowContract, changes: AmendableTerms, currentWallet: WalletInfo, replacedArbitrator?: string): Promise<void> {
+        if (this.verifyContract(contract) !== 'verified') {
+            this.notificationManager.showError('Contract address does not match its terms. Refusing to amend it.');
+            return;
+        }
+        if (!this.getUserRole(contract, currentWallet.pubkey)) {
+            this.notificationManager.showError('Only the contract parties can propose amendments');
+            return;
+        }
+        if (this.getPendingAmendment(contract)) {
+            this.notificationManager.showError('Another amendment is already awaiting signatures');
+            return;
+        }
+        if (contract.pendingTransaction && contract.pendingTransaction.status !== 'cancelled') {
+            this.notificationManager.showError('Resolve the pending transaction before amending the contract');
+            return;
+        }
+        if (contract.successor) {
+            this.notificationManager.showError('This contract has been superseded by an amendment');
+            return;
+        }
+
+        // Keep only what actually changes
+        if (changes.milestones) {
+            changes.amount = changes.milestones.reduce((total, milestone) => total + milestone.amount, 0);
+        }
+        const keys = (Object.keys(changes) as (keyof AmendableTerms)[])
+            .filter(key => changes[key] !== undefined && JSON.stringify(changes[key]) !== JSON.stringify(contract[key]));
+        if (keys.length === 0) {
+            this.notificationManager.showError('The amendment does not change any terms');
+            return;
+        }
+        const diff = Object.fromEntries(keys.map(key => [key, changes[key]])) as AmendableTerms;
+
+        const arbitrators = diff.arbitrators ?? contract.arbitrators;
+        const parties = [contract.buyer.pubkey, contract.seller.pubkey, ...arbitrators.map(arbitrator => arbitrator.pubkey)];
+        if (new Set(parties).size !== parties.length) {
+            this.notificationManager.showError('All parties must be different users');
+            return;
+        }
+        if (replacedArbitrator && !this.isArbitratorReplacement(contract, diff, replacedArbitrator)) {
+            this.notificationManager.showError('A replacement may only swap that one arbitrator for another user');
+            return;
+        }
+        const termsError = this.validateTerms({
+            ...diff,
+            arbitrators,
+            arbitratorThreshold: diff.arbitratorThreshold ?? contract.arbitratorThreshold
+        });
+        if (termsError) {
+            this.notificationManager.showError(termsError);
+            return;
+        }
+
+        try {
+            const amendment: ContractAmendment = {
+                version: (contract.version ?? 1) + 1,
+                changes: diff,
+                previous: Object.fromEntries(keys.map(key => [key, contract[key]])) as AmendableTerms,
+                proposer: currentWallet.pubkey,
+                timestamp: Date.now(),
+                acceptances: [],
+                status: 'proposed',
+                replacedArbitrator
+            };
+            amendment.acceptances = [this.signAcceptance(this.getAmendedContract(contract, amendment), currentWallet)];
+
+            contract.amendments = [...(contract.amendments ?? []), amendment];
+            this.auditLog.append(contract, 'amendment_proposed', currentWallet, {
+                details: `Version ${amendment.version}: ${Object.keys(diff).join(', ')}`
+            });
+            this.contracts.set(contract.arkAddress, contract);
+            await this.communicationProvider.updateContract(contract);
+
+            this.notificationManager.showSuccess(`Amendment to version ${amendment.version} proposed. Waiting for the other parties to sign.`);
+        } catch (error) {
+            console.error('Failed to propose amendment:', error);
+            this.notificationManager.showError('Failed to propose amendment');
+        }
+    }
+
+    /**
+     * Whether an amendment swaps exactly the given arbitrator and changes nothing else
+     */
+    private isArbitratorReplacement(contract: EscrowContract, changes: AmendableTerms, replacedArbitrator: string): boolean {
+        const arbitrators = changes.arbitrators;
+        if (!arbitrators || Object.keys(changes).length !== 1 || arbitrators.length !== contract.arbitrators.length) {
+            return false;
+        }
+        const index = contract.arbitrators.findIndex(arbitrator => arbitrator.pubkey === replacedArbitrator);
+        return index >= 0 && arbitrators.every((arbitrator, position) =>
+            position === index ? arbitrator.pubkey !== replacedArbitrator : arbitrator.pubkey === contract.arbitrators[position].pubkey
+        );
+    }
+
+    /**
+     * Buyer and seller swap an unavailable arbitrator for a new one. The escrow
+     * moves to the new script through the direct leaf once both have signed.
+     */
+    async replaceArbitrator(contract: EscrowContract, replacedArbitrator: string, replacement: User, currentWallet: WalletInfo): Promise<void> {
+        const role = this.getUserRole(contract, currentWallet.pubkey);
+        if (role !== 'buyer' && role !== 'seller') {
+            this.notificationManager.showError('Only the buyer and seller can replace an arbitrator');
+            return;
+        }
+
+        const arbitrators = contract.arbitrators.map(arbitrator => arbitrator.pubkey === replacedArbitrator ? replacement : arbitrator);
+        await this.proposeAmendment(contract, { arbitrators }, currentWallet, replacedArbitrator);
+    }
+
+    /**
+     * Sign the pending amendment, applying it when this is the last signature
+     */
+    async acceptAmendment(contract: EscrowContract, currentWallet: WalletInfo): Promise<void> {
+        const amendment = this.getPendingAmendment(contract);
+        if (!amendment) {
+            this.notificationManager.showError('No amendment awaiting signatures');
+            return;
+        }
+        if (this.verifyContract(contract) !== 'verified') {
+            this.notificationManager.showError('Contract address does not match its terms. Refusing to amend it.');
+            return;
+        }
+
+        const pending = this.getPendingAmendmentSignatures(contract, amendment);
+        if (!pending.includes(currentWallet.pubkey)) {
+            this.notificationManager.showError('You are not asked to sign this amendment, or already have');
+            return;
+        }
+
+        try {
+            const amended = this.getAmendedContract(contract, amendment);
+            amendment.acceptances = [
+                ...amendment.acceptances.filter(acceptance => acceptance.pubkey !== currentWallet.pubkey),
+                this.signAcceptance(amended, currentWallet)
+            ];
+            this.auditLog.append(contract, 'amendment_signed', currentWallet, { details: `Version ${amendment.version}` });
+
+            if (pending.length > 1) {
                 this.contracts.set(contract.arkAddress, contract);
+                await this.communicationProvider.updateContract(contract);
+                this.notificationManager.showSuccess('Amendment signed. Waiting for the other parties.');
+                return;
+            }
+
+            await this.applyAmendment(contract, amendment, currentWallet);
+
+            // The last signer starts moving the funds when they can sign the direct leaf
+            const role = this.getUserRole(contract, currentWallet.pubkey);
+            if (contract.successor && (role === 'buyer' || role === 'seller')) {
+                const state = await this.getEscrowState(contract);
+                if (this.holdsFunds(state) && !state.unrolled) {
+                    await this.executeContractAction(contract, 'Migrate Funds', currentWallet);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to accept amendment:', error);
+            this.notificationManager.showError('Failed to accept amendment');
+        }
+    }
+
+    /**
+     * Turn down the pending amendment. The proposer can withdraw it the same way.
+     */
+    async rejectAmendment(contract: EscrowContract, currentWallet: WalletInfo): Promise<void> {
+        const amendment = this.getPendingAmendment(contract);
+        if (!amendment) {
+            this.notificationManager.showError('No amendment awaiting signatures');
+            return;
+        }
+        if (!this.getAmendmentSigners(contract, amendment).includes(currentWallet.pubkey)) {
+            this.notificationManager.showError('Only the parties to the amendment can reject it');
+            return;
+        }
+
+        const { auditLog } = contract;
+        try {
+            amendment.status = 'rejected';
+            this.auditLog.append(contract, 'amendment_rejected', currentWallet, { details: `Version ${amendment.version}` });
+            this.contracts.set(contract.arkAddress, contract);
+            await this.communicationProvider.updateContract(contract);
+            this.notificationManager.showInfo(`Amendment to version ${amendment.version} rejected`);
+        } catch (error) {
+            // Undo locally so the next update doesn't carry an unpublished change
+            amendment.status = 'proposed';
+            contract.auditLog = auditLog;
+            console.error('Failed to reject amendment:', error);
+            this.notificationManager.showError('Failed to reject amendment');
+        }
+    }
+
+    /**
+     * Apply a fully signed amendment. Script changes publish the successor
+     * contract, and the funds then migrate there through the direct leaf.
+     */
+    private async applyAmendment(contract: EscrowContract, amendment: ContractAmendment, currentWallet: WalletInfo): Promise<void> {
+        const amended = this.getAmendedContract(contract, amendment);
+        amendment.status = 'applied';
+
+        if (amended.arkAddress === contract.arkAddress) {
+            this.auditLog.append(amended, 'amendment_applied', currentWallet, { details: `Version ${amendment.version}` });
+            Object.assign(contract, amended);
+            this.contracts.set(contract.arkAddress, contract);
+            await this.communicationProvider.updateContract(contract);
+            this.notificationManager.showSuccess(`Amendment applied. The contract is now at version ${amendment.version}.`);
+            return;
+        }
+
+        amendment.successor = amended.arkAddress;
+        contract.successor = amended.arkAddress;
+        this.auditLog.append(contract, 'amendment_applied', currentWallet, {
+            details: `Version ${amendment.version}, continued at ${amended.arkAddress}`
+        });
+        // Entries are signed against the address, so the successor starts its own log
+        amended.auditLog = undefined;
+        this.auditLog.append(amended, 'created', currentWallet, {
+            details: `Amended from ${contract.arkAddress} (version ${amendment.version})`
+        });
+        this.contracts.set(amended.arkAddress, amended);
+        this.contracts.set(contract.arkAddress, contract);
+        await this.communicationProvider.publishContract(amended);
+        await this.communicationProvider.updateContract(contract);
+        this.notificationManager.showSuccess('Amendment applied with a new escrow address. Buyer and seller can now migrate the funds.');
+    }
+
+    /**
+     * The contract a script amendment moved this one to, checked against its terms
+     */
+    private getSuccessorContract(contract: EscrowContract): EscrowContract {
+        const successor = contract.successor ? this.contracts.get(contract.successor) : undefined;
+        if (!successor) {
+            throw new Error('Successor contract not found');
+        }
+        // Buyer and seller sign the direct leaf the funds move through, so their acceptance is what counts
+        const signers = [contract.buyer.pubkey, contract.seller.pubkey];
+        if (successor.predecessor !== contract.arkAddress || this.verifyContract(successor) !== 'verified' ||
+            this.getMissingSignatures(successor, successor.acceptances ?? [], signers).length > 0) {
+            throw new Error('Successor contract does not match the signed amendment');
+        }
+        return successor;
+    }
+
+    /**
+     * Buyer or seller opens a dispute, handing the outcome to the arbitrators
+     */
+    async openDispute(contract: EscrowContract, reason: string, currentWallet: WalletInfo): Promise<void> {
+        const role = this.getUserRole(contract, currentWallet.pubkey);
+        if (role !== 'buyer' && role !== 'seller') {
+            this.notificationManager.showError('Only the buyer or seller can open a dispute');
+            return;
+        }
+        if (contract.dispute) {
+            this.notificationManager.showError('A dispute is already open on this contract');
+            return;
+        }
+        if (!reason.trim()) {
+            this.notificationManager.showError('Please give a reason for the dispute');
+            return;
+        }
+
+        const { auditLog } = contract;
+        try {
+            contract.dispute = {
+                openedBy: currentWallet.pubkey,
+                reason: reason.trim(),
+                timestamp: Date.now(),
+                evidence: []
+            };
+            this.auditLog.append(contract, 'dispute_opened', currentWallet, { details: contract.dispute.reason });
+            this.contracts.set(contract.arkAddress, contract);
+            await this.communicationProvider.updateContract(contract);
+            this.notificationManager.showSuccess('Dispute opened. The arbitrators have been asked to rule.');
+        } catch (error) {
+            contract.dispute = undefined;
+            contract.auditLog = auditLog;
+            console.error('Failed to open dispute:', error);
+            this.notificationManager.showError('Failed to open dispute');
+        }
+    }
+
+    /**
+     * Add a statement and/or a file to the dispute thread
+     */
+    async submitEvidence(
+        contract: EscrowContract,
+        evidence: { text?: string, file?: { name: string, mimeType: string, data: Uint8Array } },
+        currentWallet: WalletInfo
+    ): Promise<void> {
+        if (!contract.dispute) {
+            this.notificationManager.showError('No dispute is open on this contract');
+            return;
+        }
+        if (contract.dispute.ruling) {
+            this.notificationManager.showError('The dispute has already been ruled on');
+            return;
+        }
+        if (!this.getUserRole(contract, currentWallet.pubkey)) {
+            this.notificationManager.showError('Only the contract parties can submit evidence');
+            return;
+        }
+
+        const text = evidence.text?.trim() || undefined;
+        if (!text && !evidence.file) {
+            this.notificationManager.showError('Evidence needs a statement or a file');
+            return;
+        }
+        if (evidence.file && evidence.file.data.length > MAX_EVIDENCE_BYTES) {
+            this.notificationManager.showError(`Evidence files are limited to ${MAX_EVIDENCE_BYTES / 1024} KB`);
+            return;
+        }
+
+        const entry: DisputeEvidence = {
+            author: currentWallet.pubkey,
+            timestamp: Date.now(),
+            text,
+            file: evidence.file && {
+                name: evidence.file.name,
+                mimeType: evidence.file.mimeType || 'application/octet-stream',
+                data: base64.encode(evidence.file.data)
+            },
+            hash: ''
+        };
+        entry.hash = this.hashEvidence(entry);
+
+        const size = JSON.stringify({ ...contract, dispute: { ...contract.dispute, evidence: [...contract.dispute.evidence, entry] } }).length;
+        if (size > MAX_CONTRACT_SIZE) {
+            this.notificationManager.showError(`This evidence would make the contract too large to publish (${Math.ceil(size / 1024)} KB of ${MAX_CONTRACT_SIZE / 1024} KB)`);
+            return;
+        }
+
+        const { dispute, auditLog } = contract;
+        try {
+            dispute.evidence.push(entry);
+            this.auditLog.append(contract, 'evidence_submitted', currentWallet, {
+                details: `${entry.file ? entry.file.name : 'Statement'} (sha256 ${entry.hash.slice(0, 16)}...)`
             });
+            this.contracts.set(contract.arkAddress, contract);
+            await this.communicationProvider.updateContract(contract);
+            this.notificationManager.showSuccess('Evidence submitted');
         } catch (error) {
-            console.error('Failed to load contracts from communication provider:', error);
+            dispute.evidence = dispute.evidence.filter(other => other !== entry);
+            contract.auditLog = auditLog;
+            console.error('Failed to submit evidence:', error);
+            this.notificationManager.showError('Failed to submit evidence');
+        }
+    }
+
+    /**
+     * Whether evidence still matches the content hash it was submitted with
+     */
+    verifyEvidence(evidence: DisputeEvidence): boolean {
+        try {
+            return this.hashEvidence(evidence) === evidence.hash;
+        } catch (error) {
+            // Undecodable file contents can't match
+            return false;
+        }
+    }
+
+    private hashEvidence(evidence: DisputeEvidence): string {
+        // The statement followed by the file contents
+        const text = new TextEncoder().encode(evidence.text ?? '');
+        const file = evidence.file ? base64.decode(evidence.file.data) : new Uint8Array();
+        const content = new Uint8Array(text.length + file.length);
+        content.set(text);
+        content.set(file, text.length);
+        return hex.encode(sha256(content));
+    }
+
+    /**
+     * An arbitrator records their decision and proposes the spend that carries it out
+     */
+    async issueRuling(contract: EscrowContract, ruling: Pick<DisputeRuling, 'decision' | 'split' | 'reasoning'>, currentWallet: WalletInfo, arbitratorSet?: string[]): Promise<void> {
+        if (this.getUserRole(contract, currentWallet.pubkey) !== 'arbitrator') {
+            this.notificationManager.showError('Only an arbitrator can rule on a dispute');
+            return;
+        }
+        if (!contract.dispute) {
+            this.notificationManager.showError('No dispute is open on this contract');
+            return;
+        }
+        if (contract.dispute.ruling) {
+            this.notificationManager.showError('The dispute has already been ruled on');
+            return;
+        }
+        if (!ruling.reasoning.trim()) {
+            this.notificationManager.showError('Please explain the ruling');
+            return;
+        }
+
+        // Check the ruling can be paid out before recording it
+        const action = { release: 'Release', refund: 'Refund', split: 'Arbitrate Split' }[ruling.decision];
+        try {
+            const { balance } = await this.getEscrowState(contract);
+            const arbitrators = this.selectArbitratorSet(contract, currentWallet.pubkey, arbitratorSet);
+            this.resolvePayout(contract, action, balance ?? 0, currentWallet.pubkey, arbitrators, ruling.decision === 'split' ? ruling.split : undefined);
+        } catch (error: any) {
+            this.notificationManager.showError(`Cannot rule that way: ${error.message}`);
+            return;
+        }
+
+        const { dispute, auditLog } = contract;
+        try {
+            dispute.ruling = {
+                arbitrator: currentWallet.pubkey,
+                timestamp: Date.now(),
+                decision: ruling.decision,
+                split: ruling.decision === 'split' ? ruling.split : undefined,
+                reasoning: ruling.reasoning.trim()
+            };
+            this.auditLog.append(contract, 'ruling', currentWallet, { details: `${ruling.decision}: ${ruling.reasoning.trim()}` });
+            this.contracts.set(contract.arkAddress, contract);
+            await this.communicationProvider.updateContract(contract);
+        } catch (error) {
+            dispute.ruling = undefined;
+            contract.auditLog = auditLog;
+            console.error('Failed to record ruling:', error);
+            this.notificationManager.showError('Failed to record ruling');
+            return;
+        }
+
+        await this.executeContractAction(contract, action, currentWallet, undefined, dispute.ruling.split, undefined, undefined, arbitratorSet);
+    }
+
+    /**
+     * Server parameters of the connected Ark server, in their stored form
+     */
+    private getConnectedServerTerms(): ServerTerms {
+        const delay = this.serverManager.getUnilateralDelay();
+        return {
+            pubkey: this.serverManager.getServerKey(),
+            unilateralExitDelay: { type: delay.type, value: Number(delay.value) },
+            network: this.serverManager.getNetworkInfo(),
+            addrPrefix: this.serverManager.getAddrPrefix(),
+        };
+    }
+
+    /**
+     * Server parameters a contract was created against. Contracts created
+     * before they were persisted fall back to the connected server.
+     */
+    getServerTerms(contract: EscrowContract): ServerTerms {
+        return contract.server ?? this.getConnectedServerTerms();
+    }
+
+    /**
+     * Describe how the connected server differs from the one the contract was created against
+     * @returns A warning message, or null when the servers match
+     */
+    getServerMismatch(contract: EscrowContract): string | null {
+        if (!contract.server || !this.serverManager.isServerConnected()) return null;
+
+        const connected = this.getConnectedServerTerms();
+        const differences: string[] = [];
+        if (connected.pubkey !== contract.server.pubkey) differences.push('signer key');
+        if (connected.network !== contract.server.network) differences.push('network');
+        if (connected.unilateralExitDelay.type !== contract.server.unilateralExitDelay.type ||
+            connected.unilateralExitDelay.value !== contract.server.unilateralExitDelay.value) {
+            differences.push('exit delay');
+        }
+
+        return differences.length > 0
+            ? `Connected server does not match this contract (${differences.join(', ')})`
+            : null;
+    }
+
+    /**
+     * Escrow address of a contract, derived from its stored server terms
+     */
+    getContractAddress(contract: EscrowContract): ArkAddress {
+        const server = this.getServerTerms(contract);
+        return this.restoreScript(contract).address(server.addrPrefix, hex.decode(server.pubkey));
+    }
+
+    restoreScript(contract: EscrowContract): VEscrow.Script {
+        // Contracts created before per-path delays existed use the server exit delay everywhere
+        const server = this.getServerTerms(contract);
+        const serverDelay = this.toRelativeTimelock(server.unilateralExitDelay);
+        const delays = contract.unilateralDelays;
+        return new VEscrow.Script({
+            unilateralReleaseDelay: delays ? this.toRelativeTimelock(delays.release) : serverDelay,
+            unilateralRefundDelay: delays ? this.toRelativeTimelock(delays.refund) : serverDelay,
+            unilateralDirectDelay: delays ? this.toRelativeTimelock(delays.direct) : serverDelay,
+            buyer: hex.decode(contract.buyer.pubkey),
+            seller: hex.decode(contract.seller.pubkey),
+            arbitrators: contract.arbitrators.map(arbitrator => hex.decode(arbitrator.pubkey)),
+            arbitratorThreshold: contract.arbitratorThreshold,
+            server: hex.decode(server.pubkey),
+            refundLocktime: contract.refundDeadline !== undefined ? BigInt(contract.refundDeadline) : undefined,
+            deliveryHash: contract.deliveryHash ? hex.decode(contract.deliveryHash) : undefined,
+            nonce: contract.nonce ? hex.decode(contract.nonce) : undefined
+        });
+    }
+
+    private toRelativeTimelock(timelock: StoredTimelock): RelativeTimelock {
+        return { type: timelock.type, value: BigInt(timelock.value) };
+    }
+
+    /**
+     * Check the terms a contract is created or amended with. Only the terms
+     * present are checked, so an amendment can pass just what it changes.
+     * @returns An error message, or null when the terms are acceptable
+     */
+    private validateTerms(terms: AmendableTerms): string | null {
+        const nowSeconds = Date.now() / 1000;
+
+        for (const [index, milestone] of (terms.milestones ?? []).entries()) {
+            if (!Number.isInteger(milestone.amount) || milestone.amount <= 0) {
+                return `Milestone ${index + 1} amount must be a positive whole number of sats`;
+            }
+            if (!milestone.description.trim()) {
+                return `Milestone ${index + 1} needs a description`;
+            }
+            if (milestone.deadline !== undefined && milestone.deadline <= nowSeconds) {
+                return `Milestone ${index + 1} deadline must be in the future`;
+            }
+        }
+
+        if ('amount' in terms && (!Number.isInteger(terms.amount) || terms.amount! <= 0)) {
+            return 'Amount must be a positive whole number of sats';
+        }
+
+        if (terms.refundDeadline !== undefined && terms.refundDeadline <= nowSeconds) {
+            return 'Refund deadline must be in the future';
+        }
+
+        if (terms.deliveryHash !== undefined && !/^[0-9a-f]{40}$/i.test(terms.deliveryHash)) {
+            return 'Delivery hash must be a 20-byte hash160 in hex';
+        }
+
+        if (terms.arbitratorFee) {
+            const { kind, value, directSettleDiscount } = terms.arbitratorFee;
+            if (!Number.isInteger(value) || value < 0 || (kind === 'bps' && value > 10000)) {
+                return kind === 'bps'
+                    ? 'Arbitrator fee must be between 0 and 10000 basis points'
+                    : 'Arbitrator fee must be a whole number of sats';
+            }
+            if (!Number.isFinite(directSettleDiscount) || directSettleDiscount < 0 || directSettleDiscount > 100) {
+                return 'Direct settle fee waiver must be between 0 and 100%';
+            }
+        }
+
+        if (terms.arbitrators && terms.arbitratorThreshold !== undefined) {
+            const count = terms.arbitrators.length;
+            if (!Number.isInteger(terms.arbitratorThreshold) || terms.arbitratorThreshold < 1 || terms.arbitratorThreshold > count) {
+                return `Arbitrator threshold must be between 1 and ${count}`;
+            }
         }
+
+        return terms.unilateralDelays ? this.validateUnilateralDelays(terms.unilateralDelays) : null;
     }
 
     /**
-     * Update local contracts map when communication provider notifies of changes
+     * Check per-path delays against the server's minimum exit delay
+     * @returns An error message, or null when all delays are acceptable
      */
-    private updateContractsFromProvider(contracts: EscrowContract[]): void {
-        this.contracts.clear();
-        contracts.forEach(contract => {
-            this.contracts.set(contract.arkAddress, contract);
-        });
+    private validateUnilateralDelays(delays: UnilateralDelays): string | null {
+        const minimum = this.serverManager.getUnilateralDelay();
+        const entries: [string, StoredTimelock][] = [
+            ['Release', delays.release],
+            ['Refund', delays.refund],
+            ['Direct', delays.direct],
+        ];
+
+        for (const [name, delay] of entries) {
+            if (!Number.isInteger(delay.value)) {
+                return `${name} delay must be a whole number`;
+            }
+            if (delay.type !== minimum.type) {
+                return `${name} delay must be expressed in ${minimum.type} like the server exit delay`;
+            }
+            if (BigInt(delay.value) < minimum.value) {
+                return `${name} delay must be at least the server exit delay (${minimum.value} ${minimum.type})`;
+            }
+            if (delay.type === 'seconds' && delay.value % 512 !== 0) {
+                return `${name} delay in seconds must be a multiple of 512`;
+            }
+        }
+
+        return null;
     }
 
-    restoreScript(contract: EscrowContract): VEscrow.Script {
-        return new VEscrow.Script({
-            unilateralDelay: this.serverManager.getUnilateralDelay(),
-            buyer: hex.decode(contract.buyer.pubkey),
-            seller: hex.decode(contract.seller.pubkey),
-            arbitrator: hex.decode(contract.arbitrator.pubkey),
-            server: hex.decode(this.serverManager.getServerKey())
-        });
+    /**
+     * Whether the contract's absolute refund deadline has passed
+     */
+    isRefundDeadlinePassed(contract: EscrowContract): boolean {
+        return contract.refundDeadline !== undefined && Date.now() / 1000 >= contract.refundDeadline;
     }
 
     async createEscrowContract(
         buyerId: string,
         sellerId: string,
-        arbitratorId: string,
+        arbitratorIds: string[],
+        arbitratorThreshold: number,
+        amount: number,
         description: string,
         currentWallet: WalletInfo | null,
-        unilateralDelay: RelativeTimelock
+        unilateralDelays: UnilateralDelays,
+        refundDeadline?: number,
+        deliveryHash?: string,
+        arbitratorFee?: ArbitratorFeeTerms,
+        milestones?: Milestone[]
     ): Promise<void> {
         if (!currentWallet) {
             this.notificationManager.showError('No wallet available');
             return;
         }
 
-        if (!buyerId || !sellerId || !arbitratorId) {
+        if (!buyerId || !sellerId || arbitratorIds.length === 0) {
             this.notificationManager.showError('Please select all parties');
             return;
         }
 
         // Check if all selected parties are different
-        const parties = [buyerId, sellerId, arbitratorId];
+        const parties = [buyerId, sellerId, ...arbitratorIds];
         if (new Set(parties).size !== parties.length) {
             this.notificationManager.showError('All parties must be different users');
             return;
         }
 
+        if (!Number.isInteger(arbitratorThreshold) || arbitratorThreshold < 1 || arbitratorThreshold > arbitratorIds.length) {
+            this.notificationManager.showError(`Arbitrator threshold must be between 1 and ${arbitratorIds.length}`);
+            return;
+        }
+
+        if (milestones && milestones.length > 0) {
+            // The milestones make up the whole escrow
+            amount = milestones.reduce((total, milestone) => total + milestone.amount, 0);
+        } else {
+            milestones = undefined;
+        }
+
+        const termsError = this.validateTerms({ amount, milestones, refundDeadline, deliveryHash, arbitratorFee, unilateralDelays });
+        if (termsError) {
+            this.notificationManager.showError(termsError);
+            return;
+        }
+
         try {
             const buyer = this.userManager.getUserById(buyerId);
             const seller = this.userManager.getUserById(sellerId);
-            const arbitrator = this.userManager.getUserById(arbitratorId);
-            const server = this.serverManager.getServerKey();
-            const addrPrefix = this.serverManager.getAddrPrefix();
-            if (!buyer || !seller || !arbitrator) {
+            const arbitrators = arbitratorIds.map(id => this.userManager.getUserById(id));
+            if (!buyer || !seller || arbitrators.some(arbitrator => !arbitrator)) {
                 this.notificationManager.showError('One or more selected users not found');
                 return;
             }
@@ -117,15 +1013,34 @@ export class ContractManager {
             const contract: EscrowContract = {
                 buyer,
                 seller,
-                arbitrator,
+                arbitrators: arbitrators as User[],
+                arbitratorThreshold,
+                amount,
+                arbitratorFee,
+                milestones: milestones?.map(milestone => ({ ...milestone, description: milestone.description.trim() })),
                 description: description.trim(),
                 timestamp: Date.now(), 
+                refundDeadline,
+                deliveryHash: deliveryHash?.toLowerCase(),
+                unilateralDelays,
+                nonce: hex.encode(crypto.getRandomValues(new Uint8Array(32))),
+                server: this.getConnectedServerTerms(),
                 arkAddress: ''
             };
 
-            const escrowScript = this.restoreScript(contract);
-            const arkAddress = escrowScript.address(addrPrefix, hex.decode(server));
-            contract.arkAddress = arkAddress.encode();
+            contract.arkAddress = this.getContractAddress(contract).encode();
+
+            // The proposal counts as the creator's acceptance when they are a party
+            contract.acceptances = this.getUserRole(contract, currentWallet.pubkey)
+                ? [this.signAcceptance(contract, currentWallet)]
+                : [];
+            this.auditLog.append(contract, 'created', currentWallet, { details: contract.description });
+
+            // The address doubles as the contract ID, so never overwrite an existing contract
+            if (this.contracts.has(contract.arkAddress)) {
+                this.notificationManager.showError('A contract with this address already exists');
+                return;
+            }
 
             // Store contract locally and publish to communication provider
             this.contracts.set(contract.arkAddress, contract);
@@ -154,7 +1069,7 @@ export class ContractManager {
         return allContracts.filter(contract => 
             contract.buyer.pubkey === userPubkey ||
             contract.seller.pubkey === userPubkey ||
-            contract.arbitrator.pubkey === userPubkey
+            contract.arbitrators.some(arbitrator => arbitrator.pubkey === userPubkey)
         );
     }
 
@@ -165,11 +1080,11 @@ export class ContractManager {
      */
     async getEscrowState(contract: EscrowContract): Promise<EscrowState> {
 
-        const escrowScript = this.restoreScript(contract);
-        const address = escrowScript.address(this.serverManager.getAddrPrefix(), hex.decode(this.serverManager.getServerKey()));
+        // Tampered contracts may not even rebuild into a valid script
+        const address = this.verifyContract(contract) !== 'tampered' ? this.getContractAddress(contract) : null;
         if (!address) {
             return {
-                status: 'created',
+                status: 'awaiting_funding',
                 balance: 0,
                 vtxoExists: false
             };
@@ -190,105 +1105,523 @@ export class ContractManager {
 
             })
             const vtxoExists = vtxos.vtxos.length > 0;
-            const vtxoSum = vtxos.vtxos.reduce((total, vtxo) => total +  (vtxo.spentBy ? 0 : vtxo.value), 0);
+            const { balance: vtxoSum, released, swept } = this.summarizeVtxos(vtxos.vtxos);
             const allVtxosSpent = vtxoExists && vtxos.vtxos.every(vtxo => vtxo.spentBy);
-            
-            let status: 'created' | 'funded' | 'executed';
-            if (!vtxoExists) {
-                // No VTXOs ever created
-                status = 'created';
-            } else if (allVtxosSpent) {
-                // VTXOs exist but all are spent
-                status = 'executed';
-            } else {
-                // VTXOs exist and at least one is unspent
-                status = 'funded';
+            const unrolledVtxos = vtxos.vtxos.filter(vtxo => this.isSpendable(vtxo) && vtxo.isUnrolled);
+
+            if (allVtxosSpent) {
+                // VTXOs exist but all are spent: work out which leaf spent the latest one
+                const lastVtxo = [...vtxos.vtxos].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+                const outcome = await this.getSpendOutcome(contract, lastVtxo);
+
+                // Moving the funds to an amended contract spends through the direct leaf too
+                if (contract.successor && outcome.status === 'settled_direct') {
+                    outcome.status = 'migrated';
+                }
+
+                // Releasing a milestone that used up the funds doesn't end a milestone contract
+                const milestones = this.getMilestoneProgress(contract, released, released);
+                if (outcome.status === 'settled_direct' && milestones?.includes('awaiting_funding')) {
+                    return { status: 'partially_funded', balance: 0, released, milestones, vtxoExists };
+                }
+                return {
+                    ...outcome,
+                    balance: 0,
+                    released,
+                    milestones,
+                    vtxoExists
+                };
             }
 
+            // The indexer doesn't see on-chain spends, so ask the explorer about unrolled outputs
+            if (unrolledVtxos.length > 0 && unrolledVtxos.length === vtxos.vtxos.filter(vtxo => this.isSpendable(vtxo)).length) {
+                const network = this.getServerTerms(contract).network;
+                const onchainSpend = await this.exitManager.getOnchainSpend(unrolledVtxos[0], network).catch(error => {
+                    console.warn('Failed to check unrolled escrow output:', error);
+                    return null;
+                });
+                if (onchainSpend) {
+                    return {
+                        status: 'unilaterally_exited',
+                        balance: 0,
+                        released: released + vtxoSum,
+                        swept: swept || undefined,
+                        vtxoExists,
+                        spendTxid: onchainSpend.txid,
+                        spentAt: onchainSpend.timestamp
+                    };
+                }
+            }
+
+            // Compare what the escrow holds with the agreed amount, unless a party has disputed it
+            const fundingStatus = this.getFundingStatus(contract, vtxoSum + released);
+            const status = this.isDisputed(contract)
+                ? 'disputed'
+                : fundingStatus === 'awaiting_funding' && !this.isAccepted(contract) ? 'proposed' : fundingStatus;
 
             return {
                 status,
                 balance: vtxoSum,
-                vtxoExists
+                released,
+                swept: swept || undefined,
+                milestones: this.getMilestoneProgress(contract, vtxoSum + released, released),
+                vtxoExists,
+                unrolled: unrolledVtxos.length > 0
             };
         } catch (error) {
             console.error('Failed to get escrow state:', error);
             return {
-                status: 'created',
+                status: 'awaiting_funding',
                 balance: 0,
                 vtxoExists: false
             };
         }
     }
 
-    getAvailableActions(state: EscrowState, userRole: string | null): string[] {
+    /**
+     * Split the escrow's VTXO history into what it still holds, what has
+     * been paid out and what the server swept after expiry. Outputs a spend
+     * put back at the escrow script (the remainder of a partial release)
+     * don't count as released.
+     */
+    private summarizeVtxos(vtxos: VirtualCoin[]): { balance: number, released: number, swept: number } {
+        const spendTxids = new Set(vtxos.filter(vtxo => vtxo.spentBy && vtxo.arkTxId).map(vtxo => vtxo.arkTxId));
+        const balance = vtxos.reduce((total, vtxo) => total + (this.isSpendable(vtxo) ? vtxo.value : 0), 0);
+        const swept = vtxos.reduce((total, vtxo) => total + (!vtxo.spentBy && vtxo.virtualStatus?.state === 'swept' ? vtxo.value : 0), 0);
+        const spent = vtxos.reduce((total, vtxo) => total + (vtxo.spentBy ? vtxo.value : 0), 0);
+        const reescrowed = vtxos.reduce((total, vtxo) => total + (spendTxids.has(vtxo.txid) ? vtxo.value : 0), 0);
+        return { balance, released: spent - reescrowed, swept };
+    }
+
+    /**
+     * Unspent and not yet swept: a swept VTXO has expired and no escrow leaf can spend it
+     */
+    private isSpendable(vtxo: VirtualCoin): boolean {
+        return !vtxo.spentBy && vtxo.virtualStatus?.state !== 'swept';
+    }
+
+    /**
+     * Identify how a spent escrow VTXO left the contract from the leaf its
+     * spending transaction used, and when.
+     */
+    private async getSpendOutcome(contract: EscrowContract, vtxo: VirtualCoin): Promise<Pick<EscrowState, 'status' | 'spendTxid' | 'spentAt'>> {
+        const indexerProvider = this.serverManager.getIndexerProvider();
+        const spendTxid = vtxo.arkTxId || vtxo.spentBy;
+        let status: EscrowState['status'] = 'executed';
+        let spentAt: number | undefined;
+
+        try {
+            // The escrow VTXO is spent by a checkpoint (or the Ark tx itself) through one leaf
+            const { txs } = await indexerProvider.getVirtualTxs([vtxo.spentBy!]);
+            if (txs.length > 0) {
+                const spendingTx = Transaction.fromPSBT(base64.decode(txs[0]), { allowUnknown: true });
+                for (let i = 0; i < spendingTx.inputsLength; i++) {
+                    const input = spendingTx.getInput(i);
+                    if (!input.txid || hex.encode(input.txid) !== vtxo.txid || input.index !== vtxo.vout) continue;
+
+                    // Finalized inputs carry the leaf in the witness, unsigned ones in the PSBT field
+                    const leafScript = input.finalScriptWitness
+                        ? input.finalScriptWitness[input.finalScriptWitness.length - 2]
+                        : input.tapLeafScript?.[0][1].subarray(0, -1);
+                    if (leafScript) {
+                        const path = this.restoreScript(contract).getSpendingPaths()
+                            .find(spendingPath => spendingPath.script === hex.encode(leafScript));
+                        status = this.outcomeForPath(path?.name);
+                    }
+                    break;
+                }
+            }
+
+            // The outputs of the spending Ark transaction were created when it was accepted
+            if (vtxo.arkTxId) {
+                const { vtxos } = await indexerProvider.getVtxos({ outpoints: [{ txid: vtxo.arkTxId, vout: 0 }] });
+                spentAt = vtxos[0]?.createdAt.getTime();
+            }
+        } catch (error) {
+            console.warn('Failed to inspect escrow spending transaction:', error);
+        }
+
+        return { status, spendTxid, spentAt };
+    }
+
+    private outcomeForPath(pathName?: string): EscrowState['status'] {
+        switch (pathName) {
+            case 'release':
+            case 'claimWithSecret':
+                return 'released';
+            case 'refund':
+            case 'refundAfterDeadline':
+                return 'refunded';
+            case 'direct':
+                return 'settled_direct';
+            case 'unilateralRelease':
+            case 'unilateralRefund':
+            case 'unilateralDirect':
+                return 'unilaterally_exited';
+            default:
+                return 'executed';
+        }
+    }
+
+    /**
+     * Work out how far each milestone has got. Milestones are funded and
+     * released in order, so the running totals tell them apart.
+     */
+    private getMilestoneProgress(contract: EscrowContract, funded: number, released: number): MilestoneStatus[] | undefined {
+        if (!contract.milestones) return undefined;
+
+        let cumulative = 0;
+        return contract.milestones.map(milestone => {
+            cumulative += milestone.amount;
+            if (cumulative <= released) return 'released';
+            return cumulative <= funded ? 'funded' : 'awaiting_funding';
+        });
+    }
+
+    /**
+     * The action whose leaf and outputs a spend uses. Milestone releases are partial releases.
+     */
+    private getSpendAction(action: string): string {
+        return this.parseMilestoneAction(action)?.kind === 'release' ? 'Partial Release' : action;
+    }
+
+    /**
+     * Parse a milestone action such as "Release Milestone 2"
+     * @returns The action kind and the zero-based milestone index, or null for other actions
+     */
+    private parseMilestoneAction(action: string): { kind: 'fund' | 'release', index: number } | null {
+        const match = action.toLowerCase().match(/^(fund|release) milestone (\d+)$/);
+        return match ? { kind: match[1] as 'fund' | 'release', index: Number(match[2]) - 1 } : null;
+    }
+
+    private getFundingStatus(contract: EscrowContract, balance: number): EscrowState['status'] {
+        if (balance === 0) return 'awaiting_funding';
+        // Contracts without an agreed amount count as funded by any deposit
+        if (contract.amount === undefined || balance === contract.amount) return 'funded';
+        return balance < contract.amount ? 'partially_funded' : 'overfunded';
+    }
+
+    /**
+     * Whether the escrow currently holds funds that can be spent
+     */
+    private holdsFunds(state: EscrowState): boolean {
+        return ['partially_funded', 'funded', 'overfunded', 'disputed'].includes(state.status);
+    }
+
+    getAvailableActions(contract: EscrowContract, state: EscrowState, userRole: string | null): string[] {
         const actions: string[] = [];
         
         if (!userRole) return actions;
+
+        // Every party signs the terms, and nothing can be funded until they all have
+        const accepted = this.isAccepted(contract);
+        const currentPubkey = this.walletManager.getCurrentWallet()?.pubkey;
+        if (!accepted && currentPubkey && this.getPendingAcceptances(contract).includes(currentPubkey)) {
+            actions.push('Accept Terms');
+        }
+
+        // Terms can be amended until the escrow has been spent
+        const amendable = ['proposed', 'awaiting_funding'].includes(state.status) || this.holdsFunds(state);
+        const amendment = this.getPendingAmendment(contract);
+        if (amendment && currentPubkey && this.getAmendmentSigners(contract, amendment).includes(currentPubkey)) {
+            if (this.getPendingAmendmentSignatures(contract, amendment).includes(currentPubkey)) {
+                actions.push('Accept Amendment');
+            }
+            actions.push('Reject Amendment');
+        } else if (!amendment && amendable && !contract.successor && (!contract.pendingTransaction || contract.pendingTransaction.status === 'cancelled')) {
+            actions.push('Propose Amendment');
+            if (userRole === 'buyer' || userRole === 'seller') {
+                actions.push('Replace Arbitrator');
+            }
+        }
         
-        if(state.status === 'created'){
+        // Milestone contracts are funded one milestone at a time
+        const nextFunding = state.milestones?.indexOf('awaiting_funding') ?? -1;
+        const fundAction = state.milestones ? `Fund Milestone ${nextFunding + 1}` : 'Fund';
+
+        if(state.status === 'awaiting_funding'){
+            // A replaced contract is funded through its successor
+            if (contract.successor) return actions;
             switch (userRole) {
                 case 'seller':
-                    actions.push('Fund');
+                    actions.push(fundAction);
                     break;
             }
             return actions;
         }
 
+        // Nothing left to act on once the escrow has been spent
+        if (!this.holdsFunds(state)) {
+            return actions;
+        }
+
+        // After a script amendment the funds can only move on to the successor
+        if (contract.successor && !state.unrolled) {
+            if (userRole === 'buyer' || userRole === 'seller') {
+                actions.push('Migrate Funds');
+            }
+            return actions;
+        }
+
+        // A partially funded escrow can be topped up to the agreed amount
+        if (state.status === 'partially_funded' && userRole === 'seller' && !state.unrolled && accepted) {
+            actions.push(fundAction);
+        }
+
+        // Between milestones everything funded so far has been paid out
+        if (state.milestones && !state.balance) {
+            return actions;
+        }
+
+        // Once unrolled the server can no longer cosign, so only the exit leaves remain
+        if (state.unrolled) {
+            switch (userRole) {
+                case 'buyer':
+                    actions.push('Unilateral Refund', 'Unilateral Direct');
+                    break;
+                case 'seller':
+                    actions.push('Unilateral Release', 'Unilateral Direct');
+                    break;
+                case 'arbitrator':
+                    actions.push('Unilateral Release', 'Unilateral Refund');
+                    break;
+            }
+            return actions;
+        }
         
+        // In a dispute the arbitrators drive the outcome while the parties argue their case
+        if (state.status === 'disputed') {
+            switch (userRole) {
+                case 'buyer':
+                    actions.push('Direct Settle');
+                    if (this.isRefundDeadlinePassed(contract)) {
+                        actions.push('Reclaim after deadline');
+                    }
+                    break;
+                case 'seller':
+                    actions.push('Direct Settle');
+                    if (contract.deliveryHash) {
+                        actions.push('Claim with secret');
+                    }
+                    break;
+                case 'arbitrator':
+                    if (!contract.dispute?.ruling) {
+                        actions.push('Issue Ruling');
+                    }
+                    actions.push('Release', 'Refund', 'Arbitrate Split');
+                    break;
+            }
+            actions.push('Unroll');
+            return actions;
+        }
+
+        // Milestones are released in order, replacing ad-hoc partial releases
+        const nextRelease = state.milestones?.findIndex(status => status !== 'released') ?? -1;
+        const partialReleaseAction = !state.milestones
+            ? ['Partial Release']
+            : state.milestones[nextRelease] === 'funded' ? [`Release Milestone ${nextRelease + 1}`] : [];
+
         switch (userRole) {
             case 'buyer':
-                actions.push('Refund', 'Direct Settle');
+                actions.push('Refund', 'Direct Settle', ...partialReleaseAction, 'Open Dispute');
+                if (this.holdsFunds(state) && this.isRefundDeadlinePassed(contract)) {
+                    actions.push('Reclaim after deadline');
+                }
                 break;
             case 'seller':
-                actions.push('Release', 'Direct Settle');
+                actions.push('Release', 'Direct Settle', ...partialReleaseAction, 'Open Dispute');
+                if (this.holdsFunds(state) && contract.deliveryHash) {
+                    actions.push('Claim with secret');
+                }
                 break;
             case 'arbitrator':
-                actions.push('Release', 'Refund');
+                actions.push('Release', 'Refund', 'Arbitrate Split');
                 break;
         }
+
+        // Any party can take the escrow on-chain if the server stops cooperating
+        if (this.holdsFunds(state)) {
+            actions.push('Unroll');
+        }
         
         return actions;
     }
 
-    async executeContractAction(contract: EscrowContract, action: string, currentWallet: WalletInfo): Promise<void> {
+    /**
+     * Build and sign a spending transaction for the given action
+     * @param secret Delivery secret revealed by the seller for 'Claim with secret'
+     * @param split Payout for 'Direct Settle' and 'Arbitrate Split', 50/50 when omitted
+     * @param arbitratorFee Fee in sats the ruling arbitrator takes on 'Arbitrate Split'
+     * @param releaseAmount Sats paid to the seller on 'Partial Release', the rest stays in escrow
+     */
+    async executeContractAction(contract: EscrowContract, action: string, currentWallet: WalletInfo, secret?: string, split?: PayoutSplit, arbitratorFee?: number, releaseAmount?: number, arbitratorSet?: string[]): Promise<void> {
+        if (this.verifyContract(contract) !== 'verified') {
+            this.notificationManager.showError('Contract address does not match its terms. Refusing to act on it.');
+            return;
+        }
+
+        switch (action.toLowerCase()) {
+            case 'accept terms':
+                await this.acceptContract(contract, currentWallet);
+                return;
+            case 'accept amendment':
+                await this.acceptAmendment(contract, currentWallet);
+                return;
+            case 'reject amendment':
+                await this.rejectAmendment(contract, currentWallet);
+                return;
+        }
+
+        if ((action.toLowerCase() === 'fund' || this.parseMilestoneAction(action)?.kind === 'fund') && !this.isAccepted(contract)) {
+            this.notificationManager.showError('All parties must accept the contract terms before it can be funded');
+            return;
+        }
+
+        // A replaced contract is funded through its successor, never directly
+        if ((action.toLowerCase() === 'fund' || this.parseMilestoneAction(action)?.kind === 'fund') && contract.successor) {
+            this.notificationManager.showError('This contract has been replaced by an amendment. Fund the successor contract instead.');
+            return;
+        }
+
         try {
-            const escrowScript = this.restoreScript(contract);
-            const address = escrowScript.address(this.serverManager.getAddrPrefix(), hex.decode(this.serverManager.getServerKey()));
+            const serverMismatch = this.getServerMismatch(contract);
+            if (serverMismatch) {
+                this.notificationManager.showWarning(`${serverMismatch}. The server may refuse to cosign.`);
+            }
+
+            const address = this.getContractAddress(contract);
             const script = hex.encode(address.pkScript);
             // Get VTXOs for the contract address to check if funds exist
             const indexerProvider = this.serverManager.getIndexerProvider();
             const vtxosResult = await indexerProvider.getVtxos({ scripts: [script] });
+
+            // An amended contract is funded by migrating what the previous one holds
+            if (contract.predecessor && (action.toLowerCase() === 'fund' || this.parseMilestoneAction(action)?.kind === 'fund')) {
+                const predecessor = this.contracts.get(contract.predecessor);
+                const previous = predecessor
+                    ? await indexerProvider.getVtxos({ scripts: [hex.encode(this.getContractAddress(predecessor).pkScript)] })
+                    : { vtxos: [] };
+                if (previous.vtxos.some(vtxo => this.isSpendable(vtxo))) {
+                    this.notificationManager.showError('Migrate the funds from the previous contract before funding this one');
+                    return;
+                }
+            }
             
             if(action?.toLowerCase() === "fund"){
-                if (vtxosResult.vtxos.length > 0) {
-                    this.notificationManager.showError('Funds already exist in escrow contract');
+                const escrowAddress = address.encode();
+                if (contract.amount === undefined) {
+                    // Contracts without an agreed amount take the full wallet balance once
+                    if (vtxosResult.vtxos.length > 0) {
+                        this.notificationManager.showError('Funds already exist in escrow contract');
+                        return;
+                    }
+                    await this.recordFunding(contract, escrowAddress, currentWallet, action);
+                    return;
+                }
+
+                if (vtxosResult.vtxos.length > 0 && vtxosResult.vtxos.every(vtxo => vtxo.spentBy)) {
+                    this.notificationManager.showError('Escrow contract has already been executed');
+                    return;
+                }
+
+                // Send exactly what is missing from the agreed amount, counting partial releases as funded
+                const { balance, released } = this.summarizeVtxos(vtxosResult.vtxos);
+                const remaining = contract.amount - balance - released;
+                if (remaining <= 0) {
+                    this.notificationManager.showError('Escrow contract is already fully funded');
+                    return;
+                }
+                await this.recordFunding(contract, escrowAddress, currentWallet, action, remaining);
+                return;
+            }
+            // Milestones go through the funding and partial release flows one at a time, in order
+            const milestoneAction = this.parseMilestoneAction(action);
+            const spendAction = this.getSpendAction(action);
+            if (milestoneAction) {
+                const milestone = contract.milestones?.[milestoneAction.index];
+                if (!contract.milestones || !milestone) {
+                    this.notificationManager.showError('Milestone not found in contract');
+                    return;
+                }
+                const { balance, released } = this.summarizeVtxos(vtxosResult.vtxos);
+                const progress = this.getMilestoneProgress(contract, balance + released, released)!;
+                const earlier = progress.slice(0, milestoneAction.index);
+
+                if (milestoneAction.kind === 'fund') {
+                    if (progress[milestoneAction.index] !== 'awaiting_funding' || earlier.includes('awaiting_funding')) {
+                        this.notificationManager.showError('Milestones must be funded in order');
+                        return;
+                    }
+                    // Top up to the running total through this milestone
+                    const fundedThrough = contract.milestones
+                        .slice(0, milestoneAction.index + 1)
+                        .reduce((total, m) => total + m.amount, 0);
+                    await this.recordFunding(contract, address.encode(), currentWallet, action, fundedThrough - balance - released);
                     return;
-                } else {
-                    // Send full balance to the escrow address
-                    const escrowAddress = address.encode();
-                    await this.walletManager.sendTransaction(escrowAddress);
+                }
+
+                if (progress[milestoneAction.index] !== 'funded' || earlier.some(status => status !== 'released')) {
+                    this.notificationManager.showError('Milestones must be funded and released in order');
                     return;
                 }
+                releaseAmount = milestone.amount;
+            }
+
+            // Spend every unspent output at the escrow script, including top-ups.
+            // Unrolled outputs can only leave through the exit leaves, the rest only collaboratively.
+            const onchain = this.isUnilateralAction(action);
+            const vtxos = vtxosResult.vtxos.filter(vtxo => this.isSpendable(vtxo) && !!vtxo.isUnrolled === onchain);
+            if (vtxos.length === 0) {
+                this.notificationManager.showError(onchain ? 'No unrolled funds found in escrow contract' : 'No funds found in escrow contract');
+                return;
             }
-            if (vtxosResult.vtxos.length === 0) {
-                this.notificationManager.showError('No funds found in escrow contract');
+            console.log('Found VTXOs:', vtxos.map(vtxo => `${vtxo.txid}:${vtxo.vout} (${vtxo.value} sats)`));
+
+            if (action.toLowerCase() === 'unroll') {
+                this.notificationManager.showInfo('Unrolling escrow VTXOs on-chain. This can take several blocks...');
+                for (const vtxo of vtxos) {
+                    await this.exitManager.unroll({ txid: vtxo.txid, vout: vtxo.vout }, currentWallet, this.getServerTerms(contract).network);
+                }
+                this.auditLog.append(contract, 'unrolled', currentWallet, { details: `${vtxos.length} VTXO(s)` });
+                await this.communicationProvider.updateContract(contract);
+                this.notificationManager.showSuccess('Escrow VTXOs unrolled. Exit paths become spendable once their delays have elapsed.');
                 return;
             }
 
-            const vtxo = vtxosResult.vtxos[0];
-            console.log('Found VTXO:', vtxo.txid, 'with amount:', vtxo.value);
+            // The hashlock leaf needs the preimage of the committed delivery hash
+            let preimage: Uint8Array | undefined;
+            if (action.toLowerCase() === 'claim with secret') {
+                preimage = new TextEncoder().encode(secret ?? '');
+                if (!contract.deliveryHash || hex.encode(hash160(preimage)) !== contract.deliveryHash) {
+                    this.notificationManager.showError('Secret does not match the contract delivery hash');
+                    return;
+                }
+            }
+
+            // Release and refund spend through the leaf of one qualifying arbitrator subset
+            const arbitrators = this.usesArbitratorLeaf(spendAction)
+                ? this.selectArbitratorSet(contract, currentWallet.pubkey, arbitratorSet)
+                : undefined;
+
+            // Work out who gets what: negotiated or ruled splits, less arbitrator fees
+            const total = vtxos.reduce((sum, vtxo) => sum + vtxo.value, 0);
+            const payout = onchain
+                ? undefined
+                : this.resolvePayout(contract, spendAction, total, currentWallet.pubkey, arbitrators, split, arbitratorFee, releaseAmount);
 
             // Determine required signers based on action and current user role
-            const requiredSigners = this.getRequiredSignersForAction(action, contract, currentWallet);
+            const requiredSigners = this.getRequiredSignersForAction(spendAction, contract, currentWallet, arbitrators, payout);
             
             if (requiredSigners.length === 0) {
                 this.notificationManager.showError(`You are not authorized to perform ${action}`);
                 return;
             }
 
-            // Create the actual Ark transaction spending from contract VTXO
-            const { arkTx, checkpoints } = await this.createEscrowTransaction(contract, action, vtxo);
+            // Create the actual Ark transaction spending from contract VTXOs,
+            // or the on-chain exit spend once they have been unrolled
+            const { arkTx, checkpoints } = onchain
+                ? await this.createExitTransaction(contract, spendAction, vtxos, arbitrators)
+                : await this.createEscrowTransaction(contract, spendAction, vtxos, arbitrators, preimage, payout);
             
             // Sign the transaction and checkpoints with the initiator's wallet
             console.log(`Initiator ${this.getUserNameByPubkey(currentWallet.pubkey, contract)} signing transaction and checkpoints...`);
@@ -305,28 +1638,41 @@ export class ContractManager {
             console.log('Initiator signatures added to transaction and checkpoints');
             
             // Create a pending transaction with the signed transaction data
+            const timestamp = Date.now();
             const pendingTransaction = {
                 action,
                 initiator: currentWallet.pubkey,
-                timestamp: Date.now(),
+                arbitrators,
+                split: payout,
+                timestamp,
+                expiresAt: timestamp + this.getProposalExpiryHours() * 60 * 60 * 1000,
                 status: 'pending_cosign' as const,
                 partialTx: {
-                    vtxo: {
+                    vtxos: vtxos.map(vtxo => ({
                         txid: vtxo.txid,
                         vout: vtxo.vout,
                         value: vtxo.value
-                    },
+                    })),
                     arkTx: Array.from(signedArkTx.toPSBT()) as number[], // Store the signed transaction
                     checkpoints: signedCheckpoints as number[][], // Store the signed checkpoints
                     requiredSigners: requiredSigners.filter((pubkey: string) => pubkey !== currentWallet.pubkey),
                     initiatorSigned: true,
                     approvals: [currentWallet.pubkey], // Initiator automatically approves
-                    rejections: []
+                    rejections: [],
+                    onchain
                 }
             };
             
             // Update the contract with the pending transaction
-            this.updateContractPendingTransaction(address.encode(), pendingTransaction);
+            this.auditLog.append(contract, 'proposed', currentWallet, { action, details: `${total} sats` });
+            await this.updateContractPendingTransaction(address.encode(), pendingTransaction);
+
+            // Paths signed by the initiator alone (plus the server) can be submitted right away
+            if (pendingTransaction.partialTx.requiredSigners.length === 0) {
+                contract.pendingTransaction = pendingTransaction;
+                await this.executeMultiSigTransaction(contract);
+                return;
+            }
             
             const otherSigners = pendingTransaction.partialTx.requiredSigners.map((pubkey: string) => this.getUserNameByPubkey(pubkey, contract)).join(', ');
             this.notificationManager.showSuccess(`Partial transaction created for ${action}. ${otherSigners ? `Waiting for cosignature from: ${otherSigners}.` : 'Ready to execute!'}`);
@@ -336,14 +1682,192 @@ export class ContractManager {
         }
     }
 
-    private getUserRole(contract: EscrowContract, pubkey: string): string | null {
-        if (pubkey === contract.buyer.pubkey) return 'buyer';
-        if (pubkey === contract.seller.pubkey) return 'seller';
-        if (pubkey === contract.arbitrator.pubkey) return 'arbitrator';
-        return null;
+    private getUserRole(contract: EscrowContract, pubkey: string): string | null {
+        if (pubkey === contract.buyer.pubkey) return 'buyer';
+        if (pubkey === contract.seller.pubkey) return 'seller';
+        if (contract.arbitrators.some(arbitrator => arbitrator.pubkey === pubkey)) return 'arbitrator';
+        return null;
+    }
+
+    /**
+     * Check a proposed split covers the escrow exactly
+     * @returns An error message, or null when the split is valid
+     */
+    private validateSplit(split: PayoutSplit, total: number): string | null {
+        const shares = [split.buyer, split.seller];
+        if (shares.some(share => !Number.isFinite(share) || share < 0)) {
+            return 'Split shares must be positive numbers';
+        }
+        if (split.unit === 'percent') {
+            // Allow for floating point noise in fractional percentages
+            return Math.abs(split.buyer + split.seller - 100) < 1e-9 ? null : 'Split percentages must add up to 100%';
+        }
+        if (shares.some(share => !Number.isInteger(share))) {
+            return 'Split amounts must be whole sats';
+        }
+        return split.buyer + split.seller === total
+            ? null
+            : `Split amounts must add up to the escrow balance of ${total} sats`;
+    }
+
+    /**
+     * Payout of a collaborative spend: the agreed or ruled split of the escrow,
+     * less the arbitrator fee owed under the contract terms.
+     * @returns undefined when the default outputs of the action apply
+     */
+    private resolvePayout(
+        contract: EscrowContract,
+        action: string,
+        total: number,
+        initiator: string,
+        arbitrators: string[] = [],
+        split?: PayoutSplit,
+        manualFee?: number,
+        releaseAmount?: number
+    ): Payout | undefined {
+        const name = action.toLowerCase();
+
+        // Both parties agree to pay part of the escrow out and keep the rest locked
+        if (name === 'partial release') {
+            if (releaseAmount === undefined || !Number.isInteger(releaseAmount) || releaseAmount <= 0 || releaseAmount > total) {
+                throw new Error(`Partial release must be a whole number of sats up to the escrow balance of ${total} sats`);
+            }
+            return { buyer: 0, seller: releaseAmount, remainder: total - releaseAmount };
+        }
+
+        let fees: { pubkey: string; amount: number }[] = [];
+        if (contract.arbitratorFee && ['release', 'refund', 'arbitrate split', 'direct settle'].includes(name)) {
+            // Ruling arbitrators share the fee. A direct settlement owes the whole
+            // panel, discounted unless the parties went through a dispute.
+            const recipients = name === 'direct settle' ? contract.arbitrators.map(arbitrator => arbitrator.pubkey) : arbitrators;
+            const discount = name === 'direct settle' && !this.isDisputed(contract) ? contract.arbitratorFee.directSettleDiscount : 0;
+            fees = this.shareFee(this.computeArbitratorFee(contract.arbitratorFee, total, discount), recipients);
+        } else if (name === 'arbitrate split' && manualFee) {
+            // Without agreed terms the ruling arbitrator names a fee
+            if (!Number.isInteger(manualFee) || manualFee < 0) {
+                throw new Error('Arbitrator fee must be a whole number of sats');
+            }
+            fees = [{ pubkey: initiator, amount: manualFee }];
+        }
+
+        const feeTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+        if (feeTotal >= total) {
+            throw new Error(`Arbitrator fee of ${feeTotal} sats leaves nothing of the ${total} sat escrow`);
+        }
+        const remaining = total - feeTotal;
+        const arbitratorFees = fees.length > 0 ? fees : undefined;
+
+        switch (name) {
+            case 'release':
+                return arbitratorFees ? { buyer: 0, seller: remaining, arbitratorFees } : undefined;
+            case 'refund':
+                return arbitratorFees ? { buyer: remaining, seller: 0, arbitratorFees } : undefined;
+            case 'direct settle':
+            case 'arbitrate split': {
+                if (name === 'direct settle' && !split && !arbitratorFees) {
+                    return undefined;
+                }
+                const ruling = split ?? { buyer: 50, seller: 50, unit: 'percent' as const };
+                const splitError = this.validateSplit(ruling, remaining);
+                if (splitError) {
+                    throw new Error(splitError);
+                }
+                return { ...this.resolveSplit(ruling, remaining), arbitratorFees };
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Fee owed under the contract terms, never more than the escrow holds
+     * @param discount Percent of the fee waived
+     */
+    private computeArbitratorFee(terms: ArbitratorFeeTerms, total: number, discount = 0): number {
+        const fee = terms.kind === 'flat' ? terms.value : Math.floor(total * terms.value / 10000);
+        return Math.floor(Math.min(fee, total) * (100 - discount) / 100);
+    }
+
+    /**
+     * Share a fee evenly between arbitrators, the first one taking the rounding remainder
+     */
+    private shareFee(amount: number, recipients: string[]): { pubkey: string; amount: number }[] {
+        if (amount <= 0 || recipients.length === 0) return [];
+        const share = Math.floor(amount / recipients.length);
+        return recipients
+            .map((pubkey, index) => ({ pubkey, amount: index === 0 ? amount - share * (recipients.length - 1) : share }))
+            .filter(fee => fee.amount > 0);
+    }
+
+    /**
+     * Whether a party has opened a dispute on the contract
+     */
+    private isDisputed(contract: EscrowContract): boolean {
+        return contract.dispute !== undefined;
+    }
+
+    private resolveSplit(split: PayoutSplit, total: number): Payout {
+        if (split.unit === 'sats') {
+            return { buyer: split.buyer, seller: split.seller };
+        }
+        // The seller takes the rounding remainder so the outputs always sum to the input
+        const buyer = Math.floor(total * split.buyer / 100);
+        return { buyer, seller: total - buyer };
+    }
+
+    private usesArbitratorLeaf(action: string): boolean {
+        return ['release', 'refund', 'arbitrate split', 'unilateral release', 'unilateral refund'].includes(action.toLowerCase());
+    }
+
+    /**
+     * An arbitrated split goes through the release leaf when the seller gets
+     * at least as much as the buyer and through the refund leaf otherwise, so
+     * the party that benefits is the one who cosigns.
+     */
+    private splitFavorsSeller(payout?: Payout): boolean {
+        return !!payout && payout.seller >= payout.buyer;
+    }
+
+    private isUnilateralAction(action: string): boolean {
+        return action.toLowerCase().startsWith('unilateral ');
+    }
+
+    /**
+     * Whether the initiator has to pick which arbitrators sign an action:
+     * it spends through an arbitrator leaf and the panel is larger than the threshold
+     */
+    needsArbitratorChoice(contract: EscrowContract, action: string): boolean {
+        return this.usesArbitratorLeaf(this.getSpendAction(action)) && contract.arbitrators.length > contract.arbitratorThreshold;
+    }
+
+    /**
+     * Pick the arbitrator subset a release/refund transaction is built for.
+     * Each subset has its own leaf, so the choice is fixed when the transaction
+     * is created. The initiator names the available arbitrators; an initiating
+     * arbitrator is always included. Without a choice the panel order is used.
+     */
+    private selectArbitratorSet(contract: EscrowContract, initiatorPubkey: string, chosen?: string[]): string[] {
+        const panel = contract.arbitrators.map(arbitrator => arbitrator.pubkey);
+        if (chosen) {
+            const unique = [...new Set(chosen)];
+            if (unique.some(pubkey => !panel.includes(pubkey))) {
+                throw new Error('Chosen arbitrators must be on the contract panel');
+            }
+            if (unique.length !== contract.arbitratorThreshold) {
+                throw new Error(`Choose exactly ${contract.arbitratorThreshold} arbitrator(s)`);
+            }
+            if (panel.includes(initiatorPubkey) && !unique.includes(initiatorPubkey)) {
+                throw new Error('An initiating arbitrator must be one of the signers');
+            }
+            return unique;
+        }
+        const ordered = panel.includes(initiatorPubkey)
+            ? [initiatorPubkey, ...panel.filter(pubkey => pubkey !== initiatorPubkey)]
+            : panel;
+        return ordered.slice(0, contract.arbitratorThreshold);
     }
 
-    private getRequiredSignersForAction(action: string, contract: EscrowContract, currentWallet: WalletInfo): string[] {
+    private getRequiredSignersForAction(action: string, contract: EscrowContract, currentWallet: WalletInfo, arbitrators: string[] = [], payout?: Payout): string[] {
         const currentUserRole = this.getUserRole(contract, currentWallet.pubkey);
         
         switch (action.toLowerCase()) {
@@ -351,17 +1875,34 @@ export class ContractManager {
                 // Only buyer can fund
                 return currentUserRole === 'buyer' ? [contract.buyer.pubkey] : [];
             case 'release':
-                // Seller + Arbitrator can release
+            case 'unilateral release':
+                // Seller + threshold of arbitrators can release
                 return currentUserRole === 'seller' || currentUserRole === 'arbitrator' 
-                    ? [contract.seller.pubkey, contract.arbitrator.pubkey] : [];
+                    ? [contract.seller.pubkey, ...arbitrators] : [];
             case 'refund':
-                // Buyer + Arbitrator can refund
+            case 'unilateral refund':
+                // Buyer + threshold of arbitrators can refund
                 return currentUserRole === 'buyer' || currentUserRole === 'arbitrator'
-                    ? [contract.buyer.pubkey, contract.arbitrator.pubkey] : [];
+                    ? [contract.buyer.pubkey, ...arbitrators] : [];
+            case 'arbitrate split':
+                // Arbitrators rule, the favoured party cosigns
+                return currentUserRole === 'arbitrator'
+                    ? [this.splitFavorsSeller(payout) ? contract.seller.pubkey : contract.buyer.pubkey, ...arbitrators] : [];
             case 'direct settle':
+            case 'partial release':
+            case 'migrate funds':
+            case 'unilateral direct':
                 // Buyer + Seller can direct settle
                 return currentUserRole === 'buyer' || currentUserRole === 'seller'
                     ? [contract.buyer.pubkey, contract.seller.pubkey] : [];
+            case 'reclaim after deadline':
+                // Buyer alone can reclaim once the deadline has passed
+                return currentUserRole === 'buyer' && this.isRefundDeadlinePassed(contract)
+                    ? [contract.buyer.pubkey] : [];
+            case 'claim with secret':
+                // Seller alone can claim by revealing the delivery secret
+                return currentUserRole === 'seller' && contract.deliveryHash
+                    ? [contract.seller.pubkey] : [];
             default:
                 return [];
         }
@@ -370,10 +1911,319 @@ export class ContractManager {
     private getUserNameByPubkey(pubkey: string, contract: EscrowContract): string {
         if (pubkey === contract.buyer.pubkey) return contract.buyer.name;
         if (pubkey === contract.seller.pubkey) return contract.seller.name;
-        if (pubkey === contract.arbitrator.pubkey) return contract.arbitrator.name;
+        const arbitrator = contract.arbitrators.find(arbitrator => arbitrator.pubkey === pubkey);
+        if (arbitrator) return arbitrator.name;
         return 'Unknown User';
     }
 
+    /**
+     * Decode the pending transaction and check it against its declared action:
+     * it must spend exactly the escrow VTXOs through the action's leaf and pay
+     * exactly the outputs the action and its payout call for. The expected
+     * transaction is rebuilt from the contract terms and compared.
+     */
+    async reviewPendingTransaction(contract: EscrowContract): Promise<TransactionReview> {
+        const pendingTransaction = contract.pendingTransaction;
+        const partialTx = pendingTransaction?.partialTx;
+        const review: TransactionReview = { inputs: [], outputs: [], problems: [] };
+        if (!pendingTransaction || !partialTx) {
+            review.problems.push('No pending transaction');
+            return review;
+        }
+
+        const toBytes = (psbt: number[] | Uint8Array) => Array.isArray(psbt) ? new Uint8Array(psbt) : psbt;
+        const escrowScript = this.restoreScript(contract);
+        const escrowPkScript = hex.encode(escrowScript.pkScript);
+        const leafNames = new Map(escrowScript.getSpendingPaths().map(path => [path.script, path.name]));
+        const spendAction = this.getSpendAction(pendingTransaction.action);
+        const { split, arbitrators } = pendingTransaction;
+        const total = partialTx.vtxos.reduce((sum, vtxo) => sum + vtxo.value, 0);
+
+        // The payout is recomputed from the contract terms, never taken from the proposal
+        let payout: Payout | undefined;
+        try {
+            payout = partialTx.onchain ? undefined : this.getExpectedPayout(contract, total);
+            if (!this.samePayout(payout, split)) {
+                review.problems.push(`The payout does not match ${pendingTransaction.action} under the contract terms`);
+            }
+        } catch (error: any) {
+            review.problems.push(`Invalid payout for ${pendingTransaction.action}: ${error.message}`);
+            payout = split;
+        }
+
+        // Once an arbitrator has ruled, arbitrated spends must carry out the ruling
+        const ruling = contract.dispute?.ruling;
+        if (ruling && !partialTx.onchain && this.usesArbitratorLeaf(spendAction)) {
+            const rulingAction = { release: 'release', refund: 'refund', split: 'arbitrate split' }[ruling.decision];
+            const rulingSplit = ruling.split ?? { buyer: 50, seller: 50, unit: 'percent' as const };
+            const matches = spendAction.toLowerCase() === rulingAction && (ruling.decision !== 'split' || (!!payout &&
+                this.samePayout(this.resolveSplit(rulingSplit, payout.buyer + payout.seller), { buyer: payout.buyer, seller: payout.seller })));
+            if (!matches) {
+                review.problems.push(`${pendingTransaction.action} does not carry out the arbitrator's ruling (${ruling.decision})`);
+            }
+        }
+
+        let arkTx: Transaction;
+        let checkpoints: Transaction[];
+        let expectedLeaf: string;
+        try {
+            arkTx = Transaction.fromPSBT(toBytes(partialTx.arkTx), { allowUnknown: true, allowUnknownInputs: partialTx.onchain });
+            checkpoints = partialTx.checkpoints.map(checkpoint => Transaction.fromPSBT(toBytes(checkpoint), { allowUnknown: true }));
+            expectedLeaf = hex.encode(this.getSpendingPathForAction(escrowScript, spendAction, arbitrators, payout)[1].subarray(0, -1));
+        } catch (error: any) {
+            review.problems.push(`Cannot decode the transaction for ${pendingTransaction.action}: ${error.message}`);
+            return review;
+        }
+
+        // The escrow VTXOs are spent by the checkpoints, or directly by an on-chain exit
+        const spends = partialTx.onchain
+            ? Array.from({ length: arkTx.inputsLength }, (_, index) => arkTx.getInput(index))
+            : checkpoints.map(checkpoint => checkpoint.getInput(0));
+        const declared = new Set(partialTx.vtxos.map(vtxo => `${vtxo.txid}:${vtxo.vout}`));
+        for (const input of spends) {
+            const outpoint = `${input.txid ? hex.encode(input.txid) : '?'}:${input.index}`;
+            const leaf = input.tapLeafScript?.[0] ? hex.encode(input.tapLeafScript[0][1].subarray(0, -1)) : '';
+            const ok = declared.delete(outpoint) &&
+                hex.encode(input.witnessUtxo?.script ?? new Uint8Array()) === escrowPkScript &&
+                leaf === expectedLeaf;
+            review.inputs.push({
+                outpoint,
+                value: Number(input.witnessUtxo?.amount ?? 0n),
+                leaf: leafNames.get(leaf) ?? 'unknown',
+                ok
+            });
+        }
+        if (review.inputs.some(input => !input.ok) || declared.size > 0) {
+            review.problems.push(`Inputs are not the escrow VTXOs spent through the ${pendingTransaction.action} path`);
+        }
+
+        const receivedOutputs = Array.from({ length: arkTx.outputsLength }, (_, index) => arkTx.getOutput(index));
+        let expectedOutputs: { amount: bigint, script: Uint8Array }[];
+        try {
+            if (partialTx.onchain) {
+                // The exit fee comes out of the outputs, so rebuild them from what is left after it
+                review.fee = total - receivedOutputs.reduce((sum, output) => sum + Number(output.amount ?? 0n), 0);
+                expectedOutputs = this.createOutputsForAction(spendAction, contract, total - review.fee, true);
+                if (review.fee < 0 || review.fee > total / 10) {
+                    review.problems.push(`Unusual exit fee of ${review.fee} sats`);
+                }
+            } else {
+                const expected = await this.createEscrowTransaction(contract, spendAction, partialTx.vtxos, arbitrators, undefined, payout);
+                expectedOutputs = Array.from({ length: expected.arkTx.outputsLength }, (_, index) => expected.arkTx.getOutput(index));
+                // Signed or not, the txids are over the unsigned transactions (.id needs a finalized one)
+                const unsignedId = (tx: Transaction) => hex.encode(sha256x2(tx.toBytes(true)));
+                const checkpointsMatch = expected.checkpoints.length === checkpoints.length &&
+                    expected.checkpoints.every((checkpoint: Transaction, index: number) => unsignedId(checkpoint) === unsignedId(checkpoints[index]));
+                if (unsignedId(expected.arkTx) !== unsignedId(arkTx) || !checkpointsMatch) {
+                    review.problems.push(`Transaction differs from the one ${pendingTransaction.action} should produce`);
+                }
+            }
+        } catch (error: any) {
+            review.problems.push(`Cannot rebuild ${pendingTransaction.action}: ${error.message}`);
+            expectedOutputs = [];
+        }
+
+        // Off-chain payouts go to the parties' addresses, which only the signed terms vouch for
+        if (!partialTx.onchain && !this.isAccepted(contract)) {
+            review.problems.push('Payout addresses are not covered by every party\'s signed acceptance');
+        }
+
+        // Label every output and tick it off against the expected ones
+        const recipients = this.getKnownScripts(contract);
+        const unmatched = expectedOutputs.map(output => `${hex.encode(output.script)}:${output.amount}`);
+        for (const output of receivedOutputs) {
+            const script = hex.encode(output.script ?? new Uint8Array());
+            const index = unmatched.indexOf(`${script}:${output.amount}`);
+            if (index >= 0) {
+                unmatched.splice(index, 1);
+            }
+            review.outputs.push({
+                amount: Number(output.amount ?? 0n),
+                recipient: recipients.get(script) ?? `Unknown script ${script.slice(0, 16)}...`,
+                ok: index >= 0
+            });
+        }
+        if (review.outputs.some(output => !output.ok) || unmatched.length > 0) {
+            review.problems.push(`Outputs do not match the declared ${pendingTransaction.action} payout`);
+        }
+
+        return review;
+    }
+
+    /**
+     * Check the tapscript signatures in the pending PSBTs. The signers are the
+     * keys in the spending leaves (other than the server's), not the peer-supplied
+     * signer list, and each must have a valid signature on every input.
+     */
+    verifyPartialSignatures(contract: EscrowContract): SignatureCheck[] {
+        const pendingTransaction = contract.pendingTransaction;
+        const partialTx = pendingTransaction?.partialTx;
+        if (!pendingTransaction || !partialTx) {
+            return [];
+        }
+        // Reported when the transaction can't be checked at all, so it never looks approved
+        const unverifiable = (): SignatureCheck[] => [...new Set([pendingTransaction.initiator, ...partialTx.requiredSigners])]
+            .map(pubkey => ({ pubkey, status: 'invalid' as const }));
+
+        const toBytes = (psbt: number[] | Uint8Array) => Array.isArray(psbt) ? new Uint8Array(psbt) : psbt;
+        const inputs: { tx: Transaction, index: number, keys: string[] }[] = [];
+        let serverKey: string;
+        try {
+            serverKey = this.getServerTerms(contract).pubkey;
+            const arkTx = Transaction.fromPSBT(toBytes(partialTx.arkTx), { allowUnknown: true, allowUnknownInputs: partialTx.onchain });
+            const signed = [{ tx: arkTx, indexes: Array.from({ length: arkTx.inputsLength }, (_, index) => index) }];
+            if (!partialTx.onchain) {
+                signed.push(...partialTx.checkpoints.map(checkpoint => ({
+                    tx: Transaction.fromPSBT(toBytes(checkpoint), { allowUnknown: true }),
+                    indexes: [0]
+                })));
+            }
+            for (const { tx, indexes } of signed) {
+                for (const index of indexes) {
+                    const leaf = tx.getInput(index).tapLeafScript?.[0]?.[1];
+                    if (!leaf) {
+                        throw new Error(`Input ${index} has no spending leaf`);
+                    }
+                    // Signer keys are the 32-byte pushes of the leaf script
+                    const keys = Script.decode(leaf.subarray(0, -1))
+                        .filter((op): op is Uint8Array => op instanceof Uint8Array && op.length === 32)
+                        .map(key => hex.encode(key));
+                    inputs.push({ tx, index, keys });
+                }
+            }
+        } catch (error) {
+            console.error('Failed to decode pending transaction:', error);
+            return unverifiable();
+        }
+
+        const signers = [...new Set(inputs.flatMap(input => input.keys))].filter(pubkey => pubkey !== serverKey);
+        if (inputs.length === 0 || signers.length === 0) {
+            return unverifiable();
+        }
+
+        const statuses = new Map<string, SignatureCheck['status'][]>(signers.map(pubkey => [pubkey, []]));
+        for (const { tx, index, keys } of inputs) {
+            const input = tx.getInput(index);
+            const leaf = input.tapLeafScript![0][1];
+            const script = leaf.subarray(0, -1);
+            const version = leaf[leaf.length - 1];
+            const leafHash = hex.encode(tapLeafHash(script, version));
+            const prevouts = Array.from({ length: tx.inputsLength }, (_, other) => tx.getInput(other).witnessUtxo);
+
+            for (const pubkey of signers) {
+                // Every input has to be spent through a leaf the signer is part of
+                if (!keys.includes(pubkey)) {
+                    statuses.get(pubkey)!.push('invalid');
+                    continue;
+                }
+                const entry = input.tapScriptSig?.find(([{ pubKey, leafHash: hash }]) =>
+                    hex.encode(pubKey) === pubkey && hex.encode(hash) === leafHash);
+                if (!entry) {
+                    statuses.get(pubkey)!.push('missing');
+                    continue;
+                }
+                try {
+                    const signature = entry[1];
+                    const sighash = signature.length === 65 ? signature[64] : SigHash.DEFAULT;
+                    if (prevouts.some(prevout => !prevout) || signature.length < 64 || signature.length > 65) {
+                        throw new Error('Cannot compute sighash');
+                    }
+                    const message = tx.preimageWitnessV1(
+                        index,
+                        prevouts.map(prevout => prevout!.script),
+                        sighash,
+                        prevouts.map(prevout => prevout!.amount),
+                        undefined,
+                        script,
+                        version
+                    );
+                    statuses.get(pubkey)!.push(schnorr.verify(signature.subarray(0, 64), message, hex.decode(pubkey)) ? 'valid' : 'invalid');
+                } catch (error) {
+                    statuses.get(pubkey)!.push('invalid');
+                }
+            }
+        }
+
+        return signers.map(pubkey => {
+            const found = statuses.get(pubkey)!;
+            const status = found.includes('invalid') ? 'invalid' : found.includes('missing') ? 'missing' : 'valid';
+            return { pubkey, status };
+        });
+    }
+
+    /**
+     * Name every party whose signature is missing or invalid
+     */
+    private describeSignatureProblems(contract: EscrowContract, checks: SignatureCheck[]): string {
+        return checks
+            .filter(check => check.status !== 'valid')
+            .map(check => `${check.status} signature from ${this.getUserNameByPubkey(check.pubkey, contract)}`)
+            .join(', ');
+    }
+
+    /**
+     * The payout the pending action owes under the contract terms. Only how
+     * buyer and seller share a direct settlement or arbitrated split is up to
+     * the proposer, and a manual fee only on an arbitrated split without fee terms.
+     */
+    private getExpectedPayout(contract: EscrowContract, total: number): Payout | undefined {
+        const { action, split, arbitrators, initiator } = contract.pendingTransaction!;
+        const spendAction = this.getSpendAction(action);
+        switch (spendAction.toLowerCase()) {
+            case 'partial release': {
+                const milestone = this.parseMilestoneAction(action);
+                const releaseAmount = milestone ? contract.milestones?.[milestone.index]?.amount : split?.seller;
+                return this.resolvePayout(contract, spendAction, total, initiator, [], undefined, undefined, releaseAmount);
+            }
+            case 'direct settle':
+            case 'arbitrate split': {
+                const shares = split ? { buyer: split.buyer, seller: split.seller, unit: 'sats' as const } : undefined;
+                const manualFee = spendAction.toLowerCase() === 'arbitrate split' && !contract.arbitratorFee
+                    ? split?.arbitratorFees?.find(fee => fee.pubkey === initiator)?.amount
+                    : undefined;
+                return this.resolvePayout(contract, spendAction, total, initiator, arbitrators, shares, manualFee);
+            }
+            default:
+                return this.resolvePayout(contract, spendAction, total, initiator, arbitrators);
+        }
+    }
+
+    private samePayout(a?: Payout, b?: Payout): boolean {
+        const normalize = (payout?: Payout) => payout && JSON.stringify([
+            payout.buyer,
+            payout.seller,
+            payout.remainder ?? 0,
+            (payout.arbitratorFees ?? []).map(fee => `${fee.pubkey}:${fee.amount}`).sort()
+        ]);
+        return normalize(a) === normalize(b);
+    }
+
+    /**
+     * Output scripts of everyone a contract can pay, by label
+     */
+    private getKnownScripts(contract: EscrowContract): Map<string, string> {
+        const scripts = new Map<string, string>();
+        for (const [label, user] of [
+            ['Buyer', contract.buyer],
+            ['Seller', contract.seller],
+            ...contract.arbitrators.map(arbitrator => ['Arbitrator', arbitrator] as const)
+        ] as const) {
+            const name = `${label} ${user.name}`;
+            try {
+                scripts.set(hex.encode(this.addressToScript(user.address)), name);
+            } catch (error) {
+                // Users without a usable Ark address can still be paid on-chain
+            }
+            scripts.set(hex.encode(p2tr(hex.decode(user.pubkey)).script), `${name} (on-chain)`);
+        }
+        scripts.set(hex.encode(this.getContractAddress(contract).pkScript), 'Escrow (kept locked)');
+        if (contract.successor) {
+            scripts.set(hex.encode(this.addressToScript(contract.successor)), 'Successor escrow');
+        }
+        scripts.set(hex.encode(P2A.script), 'Anchor');
+        return scripts;
+    }
+
     private async signTransactionsForUser(contract: EscrowContract, currentWallet: WalletInfo): Promise<void> {
         if (!contract.pendingTransaction?.partialTx) {
             throw new Error('No pending transaction to sign');
@@ -450,68 +2300,77 @@ export class ContractManager {
         return null;
     }
 
-    private getSpendingPathForAction(escrowScript: VEscrow.Script, action: string): any {
+    private getSpendingPathForAction(escrowScript: VEscrow.Script, action: string, arbitrators?: string[], payout?: Payout): any {
+        const arbitratorKeys = arbitrators?.map(pubkey => hex.decode(pubkey));
         switch (action.toLowerCase()) {
             case 'fund':
                 return null; // Funding doesn't use a spending path
             case 'release':
-                return escrowScript.release();
+                return escrowScript.release(arbitratorKeys);
             case 'refund':
-                return escrowScript.refund();
+                return escrowScript.refund(arbitratorKeys);
+            case 'arbitrate split':
+                return this.splitFavorsSeller(payout)
+                    ? escrowScript.release(arbitratorKeys)
+                    : escrowScript.refund(arbitratorKeys);
             case 'direct settle':
+            case 'partial release':
+            case 'migrate funds':
                 return escrowScript.direct();
+            case 'reclaim after deadline':
+                return escrowScript.refundAfterDeadline();
+            case 'claim with secret':
+                return escrowScript.claimWithSecret();
+            case 'unilateral release':
+                return escrowScript.unilateralRelease(arbitratorKeys);
+            case 'unilateral refund':
+                return escrowScript.unilateralRefund(arbitratorKeys);
+            case 'unilateral direct':
+                return escrowScript.unilateralDirect();
             default:
                 return null;
         }
     }
 
-    private async createEscrowTransaction(contract: EscrowContract, action: string, vtxo: any): Promise<{ arkTx: any, checkpoints: any[] }> {
+    private async createEscrowTransaction(contract: EscrowContract, action: string, vtxos: Pick<VirtualCoin, 'txid' | 'vout' | 'value'>[], arbitrators?: string[], preimage?: Uint8Array, payout?: Payout): Promise<{ arkTx: any, checkpoints: any[] }> {
         const escrowScript = this.restoreScript(contract);
         
         // Get the spending path for this action
-        const spendingPath = this.getSpendingPathForAction(escrowScript, action);
+        const spendingPath = this.getSpendingPathForAction(escrowScript, action, arbitrators, payout);
         if (!spendingPath && action.toLowerCase() !== 'fund') {
             throw new Error(`Invalid action: ${action}`);
         }
 
         // Create server unroll script for checkpoint transactions
-        const serverKey = this.serverManager.getServerKey();
-        const unilateralDelay = this.serverManager.getUnilateralDelay();
+        const server = this.getServerTerms(contract);
         
         const serverUnrollScript = CSVMultisigTapscript.encode({
-            pubkeys: [hex.decode(serverKey)],
-            timelock: unilateralDelay
+            pubkeys: [hex.decode(server.pubkey)],
+            timelock: this.toRelativeTimelock(server.unilateralExitDelay)
         });
 
-        // Create input from the contract VTXO
-        const input = {
+        // Create one input per contract VTXO, all spending through the same leaf
+        const inputs = vtxos.map(vtxo => ({
             txid: vtxo.txid,
             vout: vtxo.vout,
             value: vtxo.value,
             script: escrowScript.pkScript,
             tapTree: escrowScript.encode(),
             tapLeafScript: spendingPath // Use the spending path directly, not .script property
-        };
+        }));
 
-        // Determine outputs based on action
-        const outputs = this.createOutputsForAction(action, contract, vtxo.value);
-
-        console.log('Building offchain tx with input:', input.txid, 'outputs:', outputs.length);
-        console.log('Input details:', {
-            txid: input.txid,
-            vout: input.vout,
-            value: input.value,
-            hasScript: !!input.script,
-            hasTapTree: !!input.tapTree,
-            hasTapLeafScript: !!input.tapLeafScript
-        });
+        // Determine outputs based on action, from the total held by the escrow
+        const total = vtxos.reduce((sum, vtxo) => sum + vtxo.value, 0);
+        const outputs = this.createOutputsForAction(action, contract, total, false, payout);
+
+        console.log('Building offchain tx with inputs:', inputs.length, 'total:', total, 'outputs:', outputs.length);
         console.log('Outputs:', outputs);
         console.log('ServerUnrollScript type:', typeof serverUnrollScript);
 
         try {
             // Build the offchain transaction
             const result = buildOffchainTx(
-                [input],
+                inputs,
                 outputs,
                 serverUnrollScript
             );
@@ -527,6 +2386,13 @@ export class ContractManager {
             if (!arkTx || !checkpoints) {
                 throw new Error('buildOffchainTx missing arkTx or checkpoints');
             }
+
+            // Attach the preimage so the condition leaf can be finalized
+            // (the checkpoint output reuses the same leaf, so both txs need it)
+            if (preimage) {
+                inputs.forEach((_, index) => setArkPsbtField(arkTx, index, ConditionWitness, [preimage]));
+                checkpoints.forEach(checkpoint => setArkPsbtField(checkpoint, 0, ConditionWitness, [preimage]));
+            }
             
             return { arkTx, checkpoints };
         } catch (error: any) {
@@ -535,33 +2401,71 @@ export class ContractManager {
         }
     }
 
-    private createOutputsForAction(action: string, contract: EscrowContract, amount: number): any[] {
+    /**
+     * @param onchain Pay the parties' on-chain taproot addresses instead of their Ark addresses
+     * @param payout Agreed split and arbitrator fees, in place of the default outputs
+     */
+    private createOutputsForAction(action: string, contract: EscrowContract, amount: number, onchain = false, payout?: Payout): any[] {
+        const scriptFor = (user: User) => onchain ? p2tr(hex.decode(user.pubkey)).script : this.addressToScript(user.address);
+
+        if (payout) {
+            const outputs = [
+                { amount: BigInt(payout.buyer), script: scriptFor(contract.buyer) },
+                { amount: BigInt(payout.seller), script: scriptFor(contract.seller) }
+            ];
+            for (const fee of payout.arbitratorFees ?? []) {
+                const arbitrator = contract.arbitrators.find(arbitrator => arbitrator.pubkey === fee.pubkey);
+                if (!arbitrator) {
+                    throw new Error('Arbitrator fee recipient is not on the contract panel');
+                }
+                outputs.push({ amount: BigInt(fee.amount), script: scriptFor(arbitrator) });
+            }
+            if (payout.remainder) {
+                // Change goes back to the same escrow script
+                outputs.push({ amount: BigInt(payout.remainder), script: this.getContractAddress(contract).pkScript });
+            }
+            // A party can settle for nothing, so leave out empty outputs
+            return outputs.filter(output => output.amount > 0n);
+        }
+
         switch (action.toLowerCase()) {
             case 'release':
+            case 'claim with secret':
+            case 'unilateral release':
                 // Send all funds to seller
                 return [{
                     amount: BigInt(amount),
-                    script: this.addressToScript(contract.seller.address)
+                    script: scriptFor(contract.seller)
                 }];
             
             case 'refund':
+            case 'reclaim after deadline':
+            case 'unilateral refund':
                 // Send all funds to buyer
                 return [{
                     amount: BigInt(amount),
-                    script: this.addressToScript(contract.buyer.address)
+                    script: scriptFor(contract.buyer)
                 }];
             
+            case 'migrate funds':
+                // Everything moves to the amended contract's escrow address
+                return [{
+                    amount: BigInt(amount),
+                    script: this.getContractAddress(this.getSuccessorContract(contract)).pkScript
+                }];
+
             case 'direct settle':
+            case 'unilateral direct':
                 // Split 50/50 between buyer and seller
                 const halfAmount = Math.floor(amount / 2);
                 return [
                     {
                         amount: BigInt(halfAmount),
-                        script: this.addressToScript(contract.buyer.address)
+                        script: scriptFor(contract.buyer)
                     },
                     {
                         amount: BigInt(amount - halfAmount), // Remaining amount to avoid rounding issues
-                        script: this.addressToScript(contract.seller.address)
+                        script: scriptFor(contract.seller)
                     }
                 ];
             
@@ -570,6 +2474,72 @@ export class ContractManager {
         }
     }
 
+    /**
+     * Build the on-chain transaction spending an unrolled escrow output
+     * through one of its CSV exit leaves. The server takes no part, so funds
+     * go to the parties' on-chain taproot addresses rather than Ark addresses.
+     */
+    private async createExitTransaction(contract: EscrowContract, action: string, vtxos: VirtualCoin[], arbitrators?: string[]): Promise<{ arkTx: Transaction, checkpoints: Transaction[] }> {
+        const escrowScript = this.restoreScript(contract);
+
+        const spendingPath = this.getSpendingPathForAction(escrowScript, action, arbitrators);
+        if (!spendingPath) {
+            throw new Error(`Invalid action: ${action}`);
+        }
+        // The leaf script is stored with its trailing leaf version byte
+        const exitLeaf = CSVMultisigTapscript.decode(spendingPath[1].subarray(0, -1));
+        const { timelock } = exitLeaf.params;
+
+        const network = this.getServerTerms(contract).network;
+        for (const vtxo of vtxos) {
+            const maturity = await this.exitManager.getExitMaturity({ txid: vtxo.txid, vout: vtxo.vout }, timelock, network);
+            if (!maturity.confirmed) {
+                throw new Error(`Escrow VTXO ${vtxo.txid}:${vtxo.vout} is not confirmed on-chain yet. Unroll it first`);
+            }
+            if (!maturity.spendable) {
+                throw new Error(`Exit delay has not elapsed yet (${maturity.remaining} left)`);
+            }
+        }
+
+        const tx = new Transaction({ version: 2, allowUnknownInputs: true });
+        vtxos.forEach(vtxo => tx.addInput({
+            txid: vtxo.txid,
+            index: vtxo.vout,
+            sequence: this.toSequence(timelock),
+            witnessUtxo: {
+                amount: BigInt(vtxo.value),
+                script: escrowScript.pkScript
+            },
+            tapLeafScript: [spendingPath],
+            sighashType: SigHash.DEFAULT
+        }));
+
+        // Per input witness: one signature per leaf key, the leaf script and its control block
+        const total = vtxos.reduce((sum, vtxo) => sum + vtxo.value, 0);
+        const outputCount = this.createOutputsForAction(action, contract, total, true).length;
+        const witnessSize = 1 + exitLeaf.params.pubkeys.length * 65 + spendingPath[1].length + 1 +
+            TaprootControlBlock.encode(spendingPath[0]).length + 1;
+        const vsize = 11 + vtxos.length * (41 + Math.ceil(witnessSize / 4)) + 43 * outputCount;
+        const fee = Math.ceil(vsize * await this.exitManager.getFeeRate(network));
+
+        const outputs = this.createOutputsForAction(action, contract, total - fee, true);
+        if (outputs.some(output => output.amount < 330n)) {
+            throw new Error(`Escrow amount is too small to cover the ${fee} sat exit fee`);
+        }
+        outputs.forEach(output => tx.addOutput(output));
+
+        return { arkTx: tx, checkpoints: [] };
+    }
+
+    /**
+     * BIP68 nSequence that satisfies a CSV timelock
+     */
+    private toSequence(timelock: RelativeTimelock): number {
+        return timelock.type === 'blocks'
+            ? Number(timelock.value)
+            : (1 << 22) | Number(timelock.value / 512n);
+    }
+
     private addressToScript(address: string): Uint8Array {
         try {
             
@@ -598,18 +2568,49 @@ export class ContractManager {
 
         const { partialTx } = contract.pendingTransaction;
         
+        if (this.verifyContract(contract) !== 'verified') {
+            this.notificationManager.showError('Contract address does not match its terms. Refusing to sign.');
+            return;
+        }
+
         // Check if user is required to sign
         if (!partialTx.requiredSigners.includes(currentWallet.pubkey)) {
             this.notificationManager.showError('You are not required to sign this transaction');
             return;
         }
 
+        if (this.isExpired(contract.pendingTransaction)) {
+            this.notificationManager.showError('This proposal has expired');
+            return;
+        }
+
+        if (contract.pendingTransaction.status === 'cancelled') {
+            this.notificationManager.showError('This proposal was cancelled by its initiator');
+            return;
+        }
+
         // Check if user already approved
         if (partialTx.approvals.includes(currentWallet.pubkey)) {
             this.notificationManager.showError('You have already approved this transaction');
             return;
         }
 
+        // Never sign something other than what the action claims to do
+        const review = await this.reviewPendingTransaction(contract);
+        if (review.problems.length > 0) {
+            this.notificationManager.showError(`Refusing to sign: ${review.problems.join('; ')}`);
+            return;
+        }
+
+        // Never sign a split that doesn't account for the whole escrow
+        const { split } = contract.pendingTransaction;
+        const total = partialTx.vtxos.reduce((sum, vtxo) => sum + vtxo.value, 0);
+        const feeTotal = split?.arbitratorFees?.reduce((sum, fee) => sum + fee.amount, 0) ?? 0;
+        if (split && split.buyer + split.seller + feeTotal + (split.remainder ?? 0) !== total) {
+            this.notificationManager.showError(`Proposed payout does not add up to the escrow balance of ${total} sats`);
+            return;
+        }
+
         try {
             const actionName = contract.pendingTransaction.action;
             this.notificationManager.showInfo(`Signing ${actionName} transaction...`);
@@ -617,12 +2618,17 @@ export class ContractManager {
             // Sign the transactions with the current user's wallet
             await this.signTransactionsForUser(contract, currentWallet);
             
-            // Add this user's approval
+            // Only count the approval once its signatures check out
+            const checks = this.verifyPartialSignatures(contract);
+            if (checks.find(check => check.pubkey === currentWallet.pubkey)?.status !== 'valid') {
+                throw new Error('Own signature did not verify');
+            }
             partialTx.approvals.push(currentWallet.pubkey);
+            this.auditLog.append(contract, 'approved', currentWallet, { action: actionName });
             
-            // Check if all required signatures are collected
+            // Check if all required signatures are collected, by the signatures themselves
             const allRequiredSigners = [...partialTx.requiredSigners, contract.pendingTransaction.initiator];
-            const allApproved = allRequiredSigners.every(pubkey => partialTx.approvals.includes(pubkey));
+            const allApproved = checks.every(check => check.status === 'valid');
             
             console.log('Approval check:', {
                 action: contract.pendingTransaction.action,
@@ -636,7 +2642,8 @@ export class ContractManager {
             console.log('Contract roles:', {
                 buyer: `${contract.buyer.name} (${contract.buyer.pubkey.slice(0,8)}...)`,
                 seller: `${contract.seller.name} (${contract.seller.pubkey.slice(0,8)}...)`,
-                arbitrator: `${contract.arbitrator.name} (${contract.arbitrator.pubkey.slice(0,8)}...)`
+                arbitrators: contract.arbitrators.map(arbitrator => `${arbitrator.name} (${arbitrator.pubkey.slice(0,8)}...)`),
+                arbitratorThreshold: contract.arbitratorThreshold
             });
             
             if (allApproved) {
@@ -644,7 +2651,11 @@ export class ContractManager {
                 await this.executeMultiSigTransaction(contract);
             } else {
                 // Still waiting for more signatures
-                const remainingSigners = allRequiredSigners.filter(pubkey => !partialTx.approvals.includes(pubkey));
+                const invalid = checks.filter(check => check.status === 'invalid');
+                if (invalid.length > 0) {
+                    this.notificationManager.showWarning(`Pending transaction has ${this.describeSignatureProblems(contract, invalid)}`);
+                }
+                const remainingSigners = checks.filter(check => check.status === 'missing').map(check => check.pubkey);
                 const remainingNames = remainingSigners.map(pubkey => this.getUserNameByPubkey(pubkey, contract));
                 this.notificationManager.showSuccess(`Transaction signed and approved. Waiting for signatures from: ${remainingNames.join(', ')}.`);
                 
@@ -659,16 +2670,75 @@ export class ContractManager {
         }
     }
 
+    /**
+     * Finish Ark transactions that were submitted but never finalized, e.g.
+     * because the tab closed in between. Any participant can complete them.
+     * Each transaction is retried automatically once per session.
+     */
+    async resumePendingTransactions(currentWallet: WalletInfo): Promise<void> {
+        for (const contract of this.getContractsForUser(currentWallet.pubkey)) {
+            const arkTxid = contract.pendingTransaction?.arkTxid;
+            if (!arkTxid || this.resumedTransactions.has(arkTxid)) {
+                continue;
+            }
+            this.resumedTransactions.add(arkTxid);
+            console.log(`Resuming finalization of ${contract.pendingTransaction!.action}:`, arkTxid);
+            await this.executeMultiSigTransaction(contract);
+        }
+    }
+
+    /**
+     * Retry finalizing a submitted transaction
+     */
+    async finalizePendingTransaction(contract: EscrowContract): Promise<void> {
+        if (!contract.pendingTransaction?.arkTxid) {
+            this.notificationManager.showError('No submitted transaction to finalize');
+            return;
+        }
+        await this.executeMultiSigTransaction(contract);
+    }
+
     private async executeMultiSigTransaction(contract: EscrowContract): Promise<void> {
         if (!contract.pendingTransaction?.partialTx) {
             throw new Error('No pending transaction to execute');
         }
 
-        const { partialTx } = contract.pendingTransaction;
-        const actionName = contract.pendingTransaction.action;
+        const pendingTransaction = contract.pendingTransaction;
+        const partialTx = pendingTransaction.partialTx!;
+        const actionName = pendingTransaction.action;
         
         try {
-            this.notificationManager.showInfo(`All signatures collected. Executing ${actionName}...`);
+            // Finalized but not cleared yet: only the cleanup is left
+            if (pendingTransaction.status === 'finalized') {
+                contract.pendingTransaction = undefined;
+                await this.updateContractPendingTransaction(contract.arkAddress, undefined);
+                return;
+            }
+
+            const resuming = pendingTransaction.status === 'submitted' && pendingTransaction.arkTxid !== undefined;
+            if (!resuming) {
+                if (pendingTransaction.status === 'cancelled') {
+                    throw new Error('The proposal was cancelled by its initiator');
+                }
+                if (this.isExpired(pendingTransaction)) {
+                    throw new Error('The proposal expired before it was fully signed');
+                }
+
+                // Never submit on the strength of the approvals list alone
+                const checks = this.verifyPartialSignatures(contract);
+                if (checks.some(check => check.status !== 'valid')) {
+                    throw new Error(`Signatures do not verify: ${this.describeSignatureProblems(contract, checks)}`);
+                }
+                this.notificationManager.showInfo(`All signatures collected. Executing ${actionName}...`);
+            } else {
+                this.notificationManager.showInfo(`Resuming finalization of ${actionName}...`);
+            }
+
+            // Unilateral exits are plain on-chain transactions, the server is not involved
+            if (partialTx.onchain) {
+                await this.broadcastExitTransaction(contract);
+                return;
+            }
             
             // Get the Ark provider
             const arkProvider = this.serverManager.getProvider();
@@ -691,13 +2761,21 @@ export class ContractManager {
             const checkpointData = partialTx.checkpoints.map(c => 
                 Array.isArray(c) ? new Uint8Array(c) : c
             );
-            const { arkTxid } = await arkProvider.submitTx(
-                base64.encode(arkTx.toPSBT()),
-                checkpointData.map(c => base64.encode(c))
-            );
-            
-            console.log(`Successfully submitted ${actionName}! Transaction ID:`, arkTxid);
-            this.notificationManager.showSuccess(`${actionName} transaction submitted! ID: ${arkTxid}`);
+            let arkTxid = pendingTransaction.arkTxid;
+            if (!resuming || !arkTxid) {
+                ({ arkTxid } = await arkProvider.submitTx(
+                    base64.encode(arkTx.toPSBT()),
+                    checkpointData.map(c => base64.encode(c))
+                ));
+
+                // Persist the txid right away so anyone can finish if finalization doesn't happen here
+                console.log(`Successfully submitted ${actionName}! Transaction ID:`, arkTxid);
+                pendingTransaction.status = 'submitted';
+                pendingTransaction.arkTxid = arkTxid;
+                this.recordAudit(contract, 'submitted', { action: actionName, txid: arkTxid });
+                await this.updateContractPendingTransaction(contract.arkAddress, pendingTransaction);
+                this.notificationManager.showSuccess(`${actionName} transaction submitted! ID: ${arkTxid}`);
+            }
             
             // Phase 2: Use the checkpoint transactions signed by each required party
             // (each user signed their checkpoints when they approved)
@@ -705,8 +2783,19 @@ export class ContractManager {
             const finalCheckpoints = checkpointData.map(c => base64.encode(c));
             
             // Finalize the transaction
-            await arkProvider.finalizeTx(arkTxid, finalCheckpoints);
+            try {
+                await arkProvider.finalizeTx(arkTxid, finalCheckpoints);
+            } catch (error: any) {
+                // Another participant may have finalized it first
+                if (!resuming || !/not found|already finalized/i.test(error.message ?? '')) {
+                    throw error;
+                }
+                console.warn(`${actionName} was already finalized:`, error.message);
+            }
             console.log(`Successfully finalized ${actionName}!`);
+            pendingTransaction.status = 'finalized';
+            this.recordAudit(contract, 'finalized', { action: actionName, txid: arkTxid });
+            await this.updateContractPendingTransaction(contract.arkAddress, pendingTransaction);
             this.notificationManager.showSuccess(`${actionName} transaction finalized successfully!`);
             
             // Clear the pending transaction
@@ -719,6 +2808,23 @@ export class ContractManager {
         }
     }
 
+    private async broadcastExitTransaction(contract: EscrowContract): Promise<void> {
+        const { partialTx, action } = contract.pendingTransaction!;
+        const exitTxData = Array.isArray(partialTx!.arkTx) ? new Uint8Array(partialTx!.arkTx) : partialTx!.arkTx;
+        const exitTx = Transaction.fromPSBT(exitTxData, { allowUnknown: true, allowUnknownInputs: true });
+
+        console.log('Broadcasting fully-signed exit transaction...');
+        const txid = await this.exitManager.broadcast(exitTx, this.getServerTerms(contract).network);
+
+        console.log(`Successfully broadcast ${action}! Transaction ID:`, txid);
+        this.recordAudit(contract, 'broadcast', { action, txid });
+        this.notificationManager.showSuccess(`${action} transaction broadcast! ID: ${txid}`);
+
+        // Clear the pending transaction
+        contract.pendingTransaction = undefined;
+        await this.updateContractPendingTransaction(contract.arkAddress, undefined);
+    }
+
     async rejectPendingTransaction(contract: EscrowContract, currentWallet: WalletInfo): Promise<void> {
         if (!contract.pendingTransaction || !contract.pendingTransaction.partialTx) {
             this.notificationManager.showError('No pending transaction to reject');
@@ -733,23 +2839,148 @@ export class ContractManager {
             return;
         }
 
+        if (contract.pendingTransaction.status === 'cancelled') {
+            this.notificationManager.showError('This proposal was cancelled by its initiator');
+            return;
+        }
+
         // Add rejection
         if (!partialTx.rejections.includes(currentWallet.pubkey)) {
             partialTx.rejections.push(currentWallet.pubkey);
         }
         
-        // Mark transaction as rejected
+        // Mark transaction as rejected. The next sweep clears it for everyone.
         contract.pendingTransaction.status = 'rejected';
+        this.auditLog.append(contract, 'rejected', currentWallet, { action: contract.pendingTransaction.action });
         this.notificationManager.showSuccess(`Transaction rejected by ${this.getUserNameByPubkey(currentWallet.pubkey, contract)}`);
         
-        // Clear the pending transaction after a delay
-        setTimeout(() => {
-            contract.pendingTransaction = undefined;
-            this.updateContractPendingTransaction(contract.arkAddress, undefined);
-            this.notificationManager.showInfo('Rejected transaction cleared');
-        }, 3000);
-        
-        this.updateContractPendingTransaction(contract.arkAddress, contract.pendingTransaction);
+        await this.updateContractPendingTransaction(contract.arkAddress, contract.pendingTransaction);
+    }
+
+    /**
+     * Withdraw a proposal before it is fully signed. Only its initiator can.
+     * The proposal is kept, marked cancelled, until it expires: deleting it
+     * would let a copy from before the cancellation bring it back.
+     */
+    async cancelPendingTransaction(contract: EscrowContract, currentWallet: WalletInfo): Promise<void> {
+        const pendingTransaction = contract.pendingTransaction;
+        if (!pendingTransaction) {
+            this.notificationManager.showError('No pending transaction to cancel');
+            return;
+        }
+        if (pendingTransaction.initiator !== currentWallet.pubkey) {
+            this.notificationManager.showError('Only the initiator can cancel this proposal');
+            return;
+        }
+        if (pendingTransaction.status !== 'pending_cosign') {
+            this.notificationManager.showError('The transaction has already been submitted');
+            return;
+        }
+
+        this.auditLog.append(contract, 'cancelled', currentWallet, { action: pendingTransaction.action });
+        pendingTransaction.status = 'cancelled';
+        await this.updateContractPendingTransaction(contract.arkAddress, pendingTransaction);
+        this.notificationManager.showSuccess(`${pendingTransaction.action} proposal cancelled`);
+    }
+
+    getProposalExpiryHours(): number {
+        const saved = Number(localStorage.getItem('proposalExpiryHours'));
+        return saved > 0 ? saved : DEFAULT_PROPOSAL_EXPIRY_HOURS;
+    }
+
+    /**
+     * Set how long new proposals stay open for cosigning
+     */
+    setProposalExpiryHours(hours: number): void {
+        if (!Number.isFinite(hours) || hours <= 0) {
+            throw new Error('Proposal expiry must be a positive number of hours');
+        }
+        localStorage.setItem('proposalExpiryHours', String(hours));
+    }
+
+    /**
+     * When a proposal stops accepting signatures. Proposals from before expiries
+     * existed use the default, so every participant agrees on it.
+     */
+    getExpiry(pendingTransaction: NonNullable<EscrowContract['pendingTransaction']>): number {
+        return pendingTransaction.expiresAt ?? pendingTransaction.timestamp + DEFAULT_PROPOSAL_EXPIRY_HOURS * 60 * 60 * 1000;
+    }
+
+    /**
+     * Submitted transactions never expire, they only wait for finalization
+     */
+    isExpired(pendingTransaction: NonNullable<EscrowContract['pendingTransaction']>): boolean {
+        return pendingTransaction.status === 'pending_cosign' && this.getExpiry(pendingTransaction) <= Date.now();
+    }
+
+    /**
+     * Whether a cancelled proposal has outlived its expiry and can be dropped
+     */
+    private isCancelledAndExpired(pendingTransaction: NonNullable<EscrowContract['pendingTransaction']>): boolean {
+        return pendingTransaction.status === 'cancelled' && this.getExpiry(pendingTransaction) <= Date.now();
+    }
+
+    /**
+     * Clear rejected and expired proposals from the user's contracts. Expiry is
+     * part of the proposal, so whichever participant sweeps first clears it for all.
+     * Overlapping sweeps are skipped.
+     */
+    async clearStalePendingTransactions(currentWallet: WalletInfo): Promise<void> {
+        if (this.sweeping) {
+            return;
+        }
+        this.sweeping = true;
+        try {
+            const isStale = (pendingTransaction: EscrowContract['pendingTransaction']) =>
+                !!pendingTransaction && (pendingTransaction.status === 'rejected' || this.isExpired(pendingTransaction) || this.isCancelledAndExpired(pendingTransaction));
+            if (!this.getContractsForUser(currentWallet.pubkey).some(contract => isStale(contract.pendingTransaction))) {
+                return;
+            }
+
+            // Another participant may have cleared it already: only act on the latest copy
+            await this.loadContracts();
+            for (const contract of this.getContractsForUser(currentWallet.pubkey)) {
+                const pendingTransaction = contract.pendingTransaction;
+                if (!pendingTransaction || !isStale(pendingTransaction)) {
+                    continue;
+                }
+
+                const expired = this.isExpired(pendingTransaction);
+                if (expired) {
+                    this.auditLog.append(contract, 'expired', currentWallet, { action: pendingTransaction.action });
+                }
+                contract.pendingTransaction = undefined;
+                await this.updateContractPendingTransaction(contract.arkAddress, undefined);
+                // Cancelled proposals were already announced when cancelled
+                if (pendingTransaction.status !== 'cancelled') {
+                    this.notificationManager.showInfo(`${expired ? 'Expired' : 'Rejected'} ${pendingTransaction.action} proposal cleared`);
+                }
+            }
+        } finally {
+            this.sweeping = false;
+        }
+    }
+
+    /**
+     * Send funds to the escrow and log the funding transaction
+     */
+    private async recordFunding(contract: EscrowContract, escrowAddress: string, currentWallet: WalletInfo, action: string, amount?: number): Promise<void> {
+        const txid = await this.walletManager.sendTransaction(escrowAddress, amount);
+        if (!txid) {
+            return;
+        }
+        this.auditLog.append(contract, 'funded', currentWallet, { action, txid, details: amount !== undefined ? `${amount} sats` : undefined });
+        await this.communicationProvider.updateContract(contract);
+    }
+
+    /**
+     * Log an event on behalf of whichever wallet is running the flow
+     */
+    private recordAudit(contract: EscrowContract, type: AuditEntry['type'], fields: Pick<AuditEntry, 'action' | 'txid' | 'details'>): void {
+        const currentWallet = this.walletManager.getCurrentWallet();
+        if (currentWallet) {
+            this.auditLog.append(contract, type, currentWallet, fields);
+        }
     }
 
     private async updateContractPendingTransaction(arkAddress: string, pendingTransaction: EscrowContract['pendingTransaction']): Promise<void> {
@@ -1,15 +1,19 @@
 import { Bytes } from "@scure/btc-signer/utils";
+import { Script as BtcScript } from "@scure/btc-signer";
 import { hex } from "@scure/base";
 import { VtxoScript, TapLeafScript } from "@arkade-os/sdk";
 import {
     MultisigTapscript,  
     CSVMultisigTapscript,
+    CLTVMultisigTapscript,
+    ConditionMultisigTapscript,
     RelativeTimelock,
 } from "@arkade-os/sdk";
 
 /**
  * Virtual Escrow Contract (VEC) namespace containing types and implementation
- * for a 3-party escrow contract with buyer, seller, and arbitrator.
+ * for a multi-party escrow contract with buyer, seller, and an M-of-N
+ * arbitrator panel.
  */
 export namespace VEscrow {
     /**
@@ -20,25 +24,103 @@ export namespace VEscrow {
         buyer: Bytes;
         /** Seller's x-only public key */
         seller: Bytes;
-        /** Arbitrator's x-only public key */
-        arbitrator: Bytes;
+        /** Arbitrator panel x-only public keys */
+        arbitrators: Bytes[];
+        /** Number of arbitrators required to act for the arbitrator role */
+        arbitratorThreshold: number;
         /** Ark server's x-only public key */
         server: Bytes;
-        /** Unilateral delay for unilateral paths */
-        unilateralDelay: RelativeTimelock;
+        /** Relative timelock for the unilateral release path */
+        unilateralReleaseDelay: RelativeTimelock;
+        /** Relative timelock for the unilateral refund path */
+        unilateralRefundDelay: RelativeTimelock;
+        /** Relative timelock for the unilateral direct path */
+        unilateralDirectDelay: RelativeTimelock;
+        /**
+         * Optional absolute locktime (CLTV) after which the buyer and server
+         * alone can reclaim the funds
+         */
+        refundLocktime?: bigint;
+        /**
+         * Optional hash160 of a delivery secret; when set, the seller and
+         * server can claim by revealing the preimage
+         */
+        deliveryHash?: Bytes;
+        /**
+         * Optional per-contract nonce committed in an unspendable leaf so that
+         * contracts between the same parties get distinct addresses
+         */
+        nonce?: Bytes;
     }
 
     /**
      * Validates the escrow contract options
      */
     function validateOptions(options: Options): void {
-        const { buyer, seller, arbitrator, server } = options;
+        const {
+            buyer,
+            seller,
+            arbitrators,
+            arbitratorThreshold,
+            server,
+            unilateralReleaseDelay,
+            unilateralRefundDelay,
+            unilateralDirectDelay,
+            refundLocktime,
+            deliveryHash,
+            nonce,
+        } = options;
+
+        if (nonce !== undefined && (nonce.length === 0 || nonce.length > 32)) {
+            throw new Error(
+                `Invalid nonce length: expected 1..32, got ${nonce.length}`
+            );
+        }
+
+        const delays = [
+            { name: "unilateral release", delay: unilateralReleaseDelay },
+            { name: "unilateral refund", delay: unilateralRefundDelay },
+            { name: "unilateral direct", delay: unilateralDirectDelay },
+        ];
+
+        for (const { name, delay } of delays) {
+            if (!delay || delay.value <= 0n) {
+                throw new Error(`${name} delay must be greater than 0`);
+            }
+            if (delay.type === "seconds" && (delay.value < 512n || delay.value % 512n !== 0n)) {
+                throw new Error(`${name} delay in seconds must be a multiple of 512`);
+            }
+        }
+
+        if (refundLocktime !== undefined && refundLocktime <= 0n) {
+            throw new Error("Refund locktime must be greater than 0");
+        }
+
+        if (deliveryHash !== undefined && deliveryHash.length !== 20) {
+            throw new Error(
+                `Invalid delivery hash length: expected 20, got ${deliveryHash.length}`
+            );
+        }
+
+        if (arbitrators.length === 0) {
+            throw new Error("At least one arbitrator is required");
+        }
+
+        if (
+            !Number.isInteger(arbitratorThreshold) ||
+            arbitratorThreshold < 1 ||
+            arbitratorThreshold > arbitrators.length
+        ) {
+            throw new Error(
+                `Invalid arbitrator threshold: expected 1..${arbitrators.length}, got ${arbitratorThreshold}`
+            );
+        }
 
         // Validate public key lengths
         const keys = [
             { name: "buyer", key: buyer },
             { name: "seller", key: seller },
-            { name: "arbitrator", key: arbitrator },
+            ...arbitrators.map((key, i) => ({ name: `arbitrator ${i + 1}`, key })),
             { name: "server", key: server },
         ];
 
@@ -51,32 +133,51 @@ export namespace VEscrow {
         }
 
         // Ensure all parties are unique
-        const keySet = new Set([
-            hex.encode(buyer),
-            hex.encode(seller),
-            hex.encode(arbitrator),
-            hex.encode(server),
-        ]);
-
-        if (keySet.size !== 4) {
+        const keySet = new Set(keys.map(({ key }) => hex.encode(key)));
+
+        if (keySet.size !== keys.length) {
             throw new Error("All parties must have unique public keys");
         }
     }
 
+    /**
+     * Returns every subset of `items` with exactly `size` elements,
+     * preserving the original ordering inside each subset
+     */
+    function combinations<T>(items: T[], size: number): T[][] {
+        if (size === 0) return [[]];
+        if (items.length < size) return [];
+
+        const [first, ...rest] = items;
+        return [
+            ...combinations(rest, size - 1).map((combo) => [first, ...combo]),
+            ...combinations(rest, size),
+        ];
+    }
+
     /**
      * Virtual Escrow Contract Script implementation
      * 
-     * Provides 6 spending paths:
+     * Provides the following spending paths, where release and refund leaves
+     * are generated once per qualifying arbitrator subset (threshold-of-panel):
      * - Collaborative (with server): release, refund, direct
      * - Unilateral (with timelock): unilateralRelease, unilateralRefund, unilateralDirect
+     * - Optional absolute-deadline refund (buyer + server): refundAfterDeadline
+     * - Optional hashlocked delivery claim (seller + server + preimage): claimWithSecret
+     * - Optional unspendable nonce leaf that only makes the address unique
      */
     export class Script extends VtxoScript {
-        readonly releaseScript: string;
-        readonly refundScript: string;
+        /** Qualifying arbitrator subsets, aligned with the per-subset scripts below */
+        readonly arbitratorSets: Bytes[][];
+        readonly releaseScripts: string[];
+        readonly refundScripts: string[];
         readonly directScript: string;
-        readonly unilateralReleaseScript: string;
-        readonly unilateralRefundScript: string;
+        readonly unilateralReleaseScripts: string[];
+        readonly unilateralRefundScripts: string[];
         readonly unilateralDirectScript: string;
+        readonly refundAfterDeadlineScript?: string;
+        readonly claimWithSecretScript?: string;
+        readonly nonceScript?: string;
 
         constructor(readonly options: Options) {
             validateOptions(options);
@@ -84,73 +185,139 @@ export namespace VEscrow {
             const {
                 buyer,
                 seller,
-                arbitrator,
+                arbitrators,
+                arbitratorThreshold,
                 server,
-                unilateralDelay,
+                unilateralReleaseDelay,
+                unilateralRefundDelay,
+                unilateralDirectDelay,
+                refundLocktime,
+                deliveryHash,
+                nonce,
             } = options;
 
+            const arbitratorSets = combinations(arbitrators, arbitratorThreshold);
+
             // Collaborative spending paths (with server)
-            const releaseScript = MultisigTapscript.encode({
-                pubkeys: [seller, arbitrator, server],
-            }).script;
+            const releaseScripts = arbitratorSets.map((set) => MultisigTapscript.encode({
+                pubkeys: [seller, ...set, server],
+            }).script);
 
-            const refundScript = MultisigTapscript.encode({
-                pubkeys: [buyer, arbitrator, server],
-            }).script;
+            const refundScripts = arbitratorSets.map((set) => MultisigTapscript.encode({
+                pubkeys: [buyer, ...set, server],
+            }).script);
 
             const directScript = MultisigTapscript.encode({
                 pubkeys: [buyer, seller, server],
             }).script;
 
             // Unilateral spending paths (with timelock)
-            const unilateralReleaseScript = CSVMultisigTapscript.encode({
-                pubkeys: [seller, arbitrator],
-                timelock: unilateralDelay,
-            }).script;
+            const unilateralReleaseScripts = arbitratorSets.map((set) => CSVMultisigTapscript.encode({
+                pubkeys: [seller, ...set],
+                timelock: unilateralReleaseDelay,
+            }).script);
 
-            const unilateralRefundScript = CSVMultisigTapscript.encode({
-                pubkeys: [buyer, arbitrator],
-                timelock: unilateralDelay,
-            }).script;
+            const unilateralRefundScripts = arbitratorSets.map((set) => CSVMultisigTapscript.encode({
+                pubkeys: [buyer, ...set],
+                timelock: unilateralRefundDelay,
+            }).script);
 
             const unilateralDirectScript = CSVMultisigTapscript.encode({
                 pubkeys: [buyer, seller],
-                timelock: unilateralDelay,
+                timelock: unilateralDirectDelay,
             }).script;
 
+            // Absolute-deadline refund path (buyer + server after locktime)
+            const refundAfterDeadlineScript = refundLocktime !== undefined
+                ? CLTVMultisigTapscript.encode({
+                    pubkeys: [buyer, server],
+                    absoluteTimelock: refundLocktime,
+                }).script
+                : undefined;
+
+            // Hashlocked delivery path (seller + server + preimage of deliveryHash)
+            const claimWithSecretScript = deliveryHash !== undefined
+                ? ConditionMultisigTapscript.encode({
+                    conditionScript: BtcScript.encode(["HASH160", deliveryHash, "EQUAL"]),
+                    pubkeys: [seller, server],
+                }).script
+                : undefined;
+
+            // Nonce commitment leaf: the condition `<nonce> DROP 0` always fails,
+            // and it is wrapped in a buyer + seller + server multisig so it
+            // stays a well-formed Ark closure that grants no extra spending power
+            const nonceScript = nonce !== undefined
+                ? ConditionMultisigTapscript.encode({
+                    conditionScript: BtcScript.encode([nonce, "DROP", 0]),
+                    pubkeys: [buyer, seller, server],
+                }).script
+                : undefined;
+
             // Initialize the VtxoScript with all spending paths
             super([
-                releaseScript,
-                refundScript,
+                ...releaseScripts,
+                ...refundScripts,
                 directScript,
-                unilateralReleaseScript,
-                unilateralRefundScript,
+                ...unilateralReleaseScripts,
+                ...unilateralRefundScripts,
                 unilateralDirectScript,
+                ...(refundAfterDeadlineScript ? [refundAfterDeadlineScript] : []),
+                ...(claimWithSecretScript ? [claimWithSecretScript] : []),
+                ...(nonceScript ? [nonceScript] : []),
             ]);
 
             // Store hex-encoded scripts for easy access
-            this.releaseScript = hex.encode(releaseScript);
-            this.refundScript = hex.encode(refundScript);
+            this.arbitratorSets = arbitratorSets;
+            this.releaseScripts = releaseScripts.map((script) => hex.encode(script));
+            this.refundScripts = refundScripts.map((script) => hex.encode(script));
             this.directScript = hex.encode(directScript);
-            this.unilateralReleaseScript = hex.encode(unilateralReleaseScript);
-            this.unilateralRefundScript = hex.encode(unilateralRefundScript);
+            this.unilateralReleaseScripts = unilateralReleaseScripts.map((script) => hex.encode(script));
+            this.unilateralRefundScripts = unilateralRefundScripts.map((script) => hex.encode(script));
             this.unilateralDirectScript = hex.encode(unilateralDirectScript);
+            if (refundAfterDeadlineScript) {
+                this.refundAfterDeadlineScript = hex.encode(refundAfterDeadlineScript);
+            }
+            if (claimWithSecretScript) {
+                this.claimWithSecretScript = hex.encode(claimWithSecretScript);
+            }
+            if (nonceScript) {
+                this.nonceScript = hex.encode(nonceScript);
+            }
+        }
+
+        /**
+         * Find the index of the leaf set signed by the given arbitrators.
+         * Defaults to the first qualifying subset when none is given.
+         */
+        private arbitratorSetIndex(arbitrators?: Bytes[]): number {
+            if (!arbitrators) return 0;
+
+            const wanted = arbitrators.map((key) => hex.encode(key)).sort().join();
+            const index = this.arbitratorSets.findIndex(
+                (set) => set.map((key) => hex.encode(key)).sort().join() === wanted
+            );
+            if (index === -1) {
+                throw new Error(
+                    `Arbitrator set does not match a ${this.options.arbitratorThreshold}-of-${this.options.arbitrators.length} subset of the panel`
+                );
+            }
+            return index;
         }
 
         /**
          * Get the tap leaf script for collaborative release path
-         * (seller + arbitrator + server)
+         * (seller + arbitrator subset + server)
          */
-        release(): TapLeafScript {
-            return this.findLeaf(this.releaseScript);
+        release(arbitrators?: Bytes[]): TapLeafScript {
+            return this.findLeaf(this.releaseScripts[this.arbitratorSetIndex(arbitrators)]);
         }
 
         /**
          * Get the tap leaf script for collaborative refund path
-         * (buyer + arbitrator + server)
+         * (buyer + arbitrator subset + server)
          */
-        refund(): TapLeafScript {
-            return this.findLeaf(this.refundScript);
+        refund(arbitrators?: Bytes[]): TapLeafScript {
+            return this.findLeaf(this.refundScripts[this.arbitratorSetIndex(arbitrators)]);
         }
 
         /**
@@ -163,18 +330,18 @@ export namespace VEscrow {
 
         /**
          * Get the tap leaf script for unilateral release path
-         * (seller + arbitrator after timelock)
+         * (seller + arbitrator subset after timelock)
          */
-        unilateralRelease(): TapLeafScript {
-            return this.findLeaf(this.unilateralReleaseScript);
+        unilateralRelease(arbitrators?: Bytes[]): TapLeafScript {
+            return this.findLeaf(this.unilateralReleaseScripts[this.arbitratorSetIndex(arbitrators)]);
         }
 
         /**
          * Get the tap leaf script for unilateral refund path
-         * (buyer + arbitrator after timelock)
+         * (buyer + arbitrator subset after timelock)
          */
-        unilateralRefund(): TapLeafScript {
-            return this.findLeaf(this.unilateralRefundScript);
+        unilateralRefund(arbitrators?: Bytes[]): TapLeafScript {
+            return this.findLeaf(this.unilateralRefundScripts[this.arbitratorSetIndex(arbitrators)]);
         }
 
         /**
@@ -185,6 +352,28 @@ export namespace VEscrow {
             return this.findLeaf(this.unilateralDirectScript);
         }
 
+        /**
+         * Get the tap leaf script for the absolute-deadline refund path
+         * (buyer + server after refundLocktime)
+         */
+        refundAfterDeadline(): TapLeafScript {
+            if (!this.refundAfterDeadlineScript) {
+                throw new Error("Escrow has no refund deadline");
+            }
+            return this.findLeaf(this.refundAfterDeadlineScript);
+        }
+
+        /**
+         * Get the tap leaf script for the hashlocked delivery path
+         * (seller + server + preimage of deliveryHash)
+         */
+        claimWithSecret(): TapLeafScript {
+            if (!this.claimWithSecretScript) {
+                throw new Error("Escrow has no delivery hash");
+            }
+            return this.findLeaf(this.claimWithSecretScript);
+        }
+
         /**
          * Get all available spending paths with their descriptions
          */
@@ -194,22 +383,32 @@ export namespace VEscrow {
             description: string;
             script: string;
             signers: string[];
+            /** Relative timelock for CSV paths */
+            timelock?: RelativeTimelock;
+            /** Absolute locktime (unix seconds or block height) for CLTV paths */
+            deadline?: number;
         }> {
+            // Label each subset by the arbitrators' 1-based panel positions
+            const panel = this.options.arbitrators.map((key) => hex.encode(key));
+            const setSigners = this.arbitratorSets.map((set) =>
+                set.map((key) => `arbitrator ${panel.indexOf(hex.encode(key)) + 1}`)
+            );
+
             return [
-                {
+                ...this.releaseScripts.map((script, i) => ({
                     name: "release",
-                    type: "collaborative",
+                    type: "collaborative" as const,
                     description: "Release funds to seller (goods delivered)",
-                    script: this.releaseScript,
-                    signers: ["seller", "arbitrator", "server"],
-                },
-                {
+                    script,
+                    signers: ["seller", ...setSigners[i], "server"],
+                })),
+                ...this.refundScripts.map((script, i) => ({
                     name: "refund",
-                    type: "collaborative",
+                    type: "collaborative" as const,
                     description: "Refund funds to buyer (dispute resolved)",
-                    script: this.refundScript,
-                    signers: ["buyer", "arbitrator", "server"],
-                },
+                    script,
+                    signers: ["buyer", ...setSigners[i], "server"],
+                })),
                 {
                     name: "direct",
                     type: "collaborative",
@@ -217,27 +416,45 @@ export namespace VEscrow {
                     script: this.directScript,
                     signers: ["buyer", "seller", "server"],
                 },
-                {
+                ...this.unilateralReleaseScripts.map((script, i) => ({
                     name: "unilateralRelease",
-                    type: "unilateral",
+                    type: "unilateral" as const,
                     description: "Release funds after timelock",
-                    script: this.unilateralReleaseScript,
-                    signers: ["seller", "arbitrator"],
-                },
-                {
+                    script,
+                    signers: ["seller", ...setSigners[i]],
+                    timelock: this.options.unilateralReleaseDelay,
+                })),
+                ...this.unilateralRefundScripts.map((script, i) => ({
                     name: "unilateralRefund",
-                    type: "unilateral",
+                    type: "unilateral" as const,
                     description: "Refund funds after timelock",
-                    script: this.unilateralRefundScript,
-                    signers: ["buyer", "arbitrator"],
-                },
+                    script,
+                    signers: ["buyer", ...setSigners[i]],
+                    timelock: this.options.unilateralRefundDelay,
+                })),
                 {
                     name: "unilateralDirect",
                     type: "unilateral",
                     description: "Direct settlement after timelock",
                     script: this.unilateralDirectScript,
                     signers: ["buyer", "seller"],
+                    timelock: this.options.unilateralDirectDelay,
                 },
+                ...(this.refundAfterDeadlineScript ? [{
+                    name: "refundAfterDeadline",
+                    type: "collaborative" as const,
+                    description: "Reclaim funds to buyer after the refund deadline",
+                    script: this.refundAfterDeadlineScript,
+                    signers: ["buyer", "server"],
+                    deadline: Number(this.options.refundLocktime),
+                }] : []),
+                ...(this.claimWithSecretScript ? [{
+                    name: "claimWithSecret",
+                    type: "collaborative" as const,
+                    description: "Release funds to seller on revealing the delivery secret",
+                    script: this.claimWithSecretScript,
+                    signers: ["seller", "server"],
+                }] : []),
             ];
         }
     }
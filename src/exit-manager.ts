@@ -0,0 +1,165 @@
+import { ESPLORA_URL, EsploraProvider, NetworkName, OnchainProvider, OnchainWallet, Outpoint, RelativeTimelock, Unroll } from '@arkade-os/sdk';
+import { Transaction } from '@scure/btc-signer';
+import { NotificationManager } from './notification-manager';
+import { ServerManager } from './server-manager';
+import { WalletInfo } from './types';
+
+/**
+ * Maturity of a unilateral exit leaf on an unrolled escrow output
+ */
+export interface ExitMaturity {
+    confirmed: boolean;
+    spendable: boolean;
+    remaining?: string; // Human readable time left on the CSV when not yet spendable
+}
+
+/**
+ * Drives unilateral exits on-chain: unrolls escrow VTXOs through the
+ * explorer and tracks when their CSV exit leaves become spendable.
+ */
+export class ExitManager {
+    private explorerUrl: string = '';
+
+    constructor(private notificationManager: NotificationManager, private serverManager: ServerManager) {
+        const savedUrl = this.getSavedExplorerUrl();
+        if (savedUrl) {
+            this.explorerUrl = savedUrl;
+        }
+    }
+
+    getSavedExplorerUrl(): string | null {
+        return localStorage.getItem('esploraUrl');
+    }
+
+    /**
+     * Override the Esplora endpoint, e.g. a local regtest explorer.
+     * An empty URL falls back to the SDK default for the network.
+     */
+    setExplorerUrl(url: string): void {
+        this.explorerUrl = url;
+        if (url) {
+            localStorage.setItem('esploraUrl', url);
+        } else {
+            localStorage.removeItem('esploraUrl');
+        }
+    }
+
+    getExplorerUrl(network: string): string {
+        return this.explorerUrl || ESPLORA_URL[this.toNetworkName(network)];
+    }
+
+    getOnchainProvider(network: string): OnchainProvider {
+        return new EsploraProvider(this.getExplorerUrl(network));
+    }
+
+    toNetworkName(network: string): NetworkName {
+        if (network === 'mainnet' || network === 'bitcoin') {
+            return 'bitcoin';
+        }
+        if (network in ESPLORA_URL) {
+            return network as NetworkName;
+        }
+        throw new Error(`Unsupported network: ${network}`);
+    }
+
+    /**
+     * Broadcast the virtual transactions leading to the escrow VTXO until it
+     * exists on-chain. Fees are paid by anchoring from the current wallet's
+     * on-chain address.
+     */
+    async unroll(outpoint: Outpoint, currentWallet: WalletInfo, network: string): Promise<void> {
+        const explorer = this.getOnchainProvider(network);
+        const bumper = new OnchainWallet(currentWallet.identity, this.toNetworkName(network), explorer);
+        const session = await Unroll.Session.create(outpoint, bumper, explorer, this.serverManager.getIndexerProvider());
+
+        try {
+            for await (const step of session) {
+                switch (step.type) {
+                    case Unroll.StepType.UNROLL:
+                        console.log('Broadcast unroll transaction:', step.tx.id);
+                        this.notificationManager.showInfo(`Broadcast unroll transaction ${step.tx.id.slice(0, 8)}...`);
+                        break;
+                    case Unroll.StepType.WAIT:
+                        console.log('Unroll transaction confirmed:', step.txid);
+                        break;
+                    case Unroll.StepType.DONE:
+                        console.log('Unroll complete for VTXO:', step.vtxoTxid);
+                        break;
+                }
+            }
+        } catch (error: any) {
+            if (error.message?.toLowerCase().includes('insufficient')) {
+                throw new Error(`Not enough on-chain funds to pay unroll fees. Send some sats to ${bumper.address}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Check whether an unrolled output is confirmed and its CSV has elapsed
+     */
+    async getExitMaturity(outpoint: Outpoint, timelock: RelativeTimelock, network: string): Promise<ExitMaturity> {
+        const explorer = this.getOnchainProvider(network);
+
+        let txStatus: Awaited<ReturnType<OnchainProvider['getTxStatus']>>;
+        try {
+            txStatus = await explorer.getTxStatus(outpoint.txid);
+        } catch (error) {
+            // Not found: the VTXO has not been unrolled yet
+            return { confirmed: false, spendable: false };
+        }
+        if (!txStatus.confirmed) {
+            return { confirmed: false, spendable: false };
+        }
+
+        const outspends = await explorer.getTxOutspends(outpoint.txid);
+        if (outspends[outpoint.vout]?.spent) {
+            throw new Error('Escrow output has already been spent on-chain');
+        }
+
+        const chainTip = await explorer.getChainTip();
+        if (timelock.type === 'blocks') {
+            const remaining = txStatus.blockHeight + Number(timelock.value) - chainTip.height;
+            return remaining <= 0
+                ? { confirmed: true, spendable: true }
+                : { confirmed: true, spendable: false, remaining: `${remaining} blocks` };
+        }
+
+        const remaining = txStatus.blockTime + Number(timelock.value) - chainTip.time;
+        return remaining <= 0
+            ? { confirmed: true, spendable: true }
+            : { confirmed: true, spendable: false, remaining: `${Math.ceil(remaining / 60)} minutes` };
+    }
+
+    /**
+     * Find the on-chain transaction spending an unrolled output
+     * @returns The spending txid and its block time (ms), or null while unspent
+     */
+    async getOnchainSpend(outpoint: Outpoint, network: string): Promise<{ txid: string, timestamp?: number } | null> {
+        const explorer = this.getOnchainProvider(network);
+        const outspends = await explorer.getTxOutspends(outpoint.txid);
+        const outspend = outspends[outpoint.vout];
+        if (!outspend?.spent) {
+            return null;
+        }
+
+        const txStatus = await explorer.getTxStatus(outspend.txid);
+        return {
+            txid: outspend.txid,
+            timestamp: txStatus.confirmed ? txStatus.blockTime * 1000 : undefined
+        };
+    }
+
+    async getFeeRate(network: string): Promise<number> {
+        const feeRate = await this.getOnchainProvider(network).getFeeRate();
+        return !feeRate || feeRate < OnchainWallet.MIN_FEE_RATE ? OnchainWallet.MIN_FEE_RATE : feeRate;
+    }
+
+    /**
+     * Finalize a fully signed exit transaction and broadcast it
+     */
+    async broadcast(tx: Transaction, network: string): Promise<string> {
+        tx.finalize();
+        return this.getOnchainProvider(network).broadcastTransaction(tx.hex);
+    }
+}
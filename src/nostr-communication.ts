@@ -174,9 +174,25 @@ export class NostrCommunication implements CommunicationProvider {
                     arkAddress: contract.arkAddress,
                     buyer: contract.buyer,
                     seller: contract.seller,
-                    arbitrator: contract.arbitrator,
+                    arbitrators: contract.arbitrators,
+                    arbitratorThreshold: contract.arbitratorThreshold,
+                    amount: contract.amount,
+                    arbitratorFee: contract.arbitratorFee,
+                    milestones: contract.milestones,
                     description: contract.description,
                     timestamp: contract.timestamp,
+                    refundDeadline: contract.refundDeadline,
+                    deliveryHash: contract.deliveryHash,
+                    unilateralDelays: contract.unilateralDelays,
+                    nonce: contract.nonce,
+                    server: contract.server,
+                    acceptances: contract.acceptances,
+                    version: contract.version,
+                    amendments: contract.amendments,
+                    predecessor: contract.predecessor,
+                    successor: contract.successor,
+                    auditLog: contract.auditLog,
+                    dispute: contract.dispute,
                     pendingTransaction: contract.pendingTransaction,
                 }),
                 tags: [
@@ -184,7 +200,7 @@ export class NostrCommunication implements CommunicationProvider {
                     ['ark-contract', contract.arkAddress],
                     ['p', contract.buyer.pubkey],    // Tag participants
                     ['p', contract.seller.pubkey],
-                    ['p', contract.arbitrator.pubkey],
+                    ...contract.arbitrators.map(arbitrator => ['p', arbitrator.pubkey]),
                 ],
             });
 
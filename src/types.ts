@@ -8,38 +8,256 @@ export interface User {
     timestamp: number;
 }
 
+/**
+ * JSON-safe form of RelativeTimelock (bigint values don't survive JSON.stringify)
+ */
+export interface StoredTimelock {
+    type: 'blocks' | 'seconds';
+    value: number;
+}
+
+/**
+ * Relative timelocks of the unilateral exit leaves
+ */
+export interface UnilateralDelays {
+    release: StoredTimelock;
+    refund: StoredTimelock;
+    direct: StoredTimelock;
+}
+
+/**
+ * Ark server parameters frozen into a contract at creation time
+ */
+export interface ServerTerms {
+    pubkey: string; // x-only server signer key (hex)
+    unilateralExitDelay: StoredTimelock;
+    network: string;
+    addrPrefix: string;
+}
+
+/**
+ * Direct settlement payout as entered by the initiator
+ */
+export interface PayoutSplit {
+    buyer: number;
+    seller: number;
+    unit: 'sats' | 'percent';
+}
+
+/**
+ * Resolved payout of a split spend, in sats
+ */
+export interface Payout {
+    buyer: number;
+    seller: number;
+    arbitratorFees?: { pubkey: string; amount: number }[]; // Paid to the arbitrators
+    remainder?: number; // Re-escrowed at the contract address by a partial release
+}
+
+/**
+ * What the arbitrator panel charges for a contract
+ */
+export interface ArbitratorFeeTerms {
+    kind: 'flat' | 'bps';
+    value: number; // Sats for a flat fee, basis points of the escrow otherwise
+    directSettleDiscount: number; // Percent of the fee waived when the parties settle directly without a dispute
+}
+
+/**
+ * One deliverable of a milestone contract, funded and released on its own
+ */
+export interface Milestone {
+    description: string;
+    amount: number; // Sats
+    deadline?: number; // Unix timestamp (seconds) the deliverable is due by
+}
+
+export type MilestoneStatus = 'awaiting_funding' | 'funded' | 'released';
+
+/**
+ * A party's Schnorr signature over the contract terms hash
+ */
+export interface ContractAcceptance {
+    pubkey: string;
+    signature: string; // Hex BIP340 signature
+    timestamp: number;
+}
+
+export type AuditEventType =
+    | 'created' | 'accepted' | 'funded' | 'unrolled'
+    | 'proposed' | 'approved' | 'rejected' | 'cancelled' | 'expired' | 'submitted' | 'finalized' | 'broadcast'
+    | 'amendment_proposed' | 'amendment_signed' | 'amendment_rejected' | 'amendment_applied'
+    | 'dispute_opened' | 'evidence_submitted' | 'ruling';
+
+/**
+ * One signed entry of a contract's audit log
+ */
+export interface AuditEntry {
+    id: string; // Hex hash of the signed fields and the contract address
+    prev?: string; // Id of the latest entry the author had seen
+    type: AuditEventType;
+    author: string; // Pubkey of the party who signed the entry
+    timestamp: number;
+    action?: string; // Contract action the entry relates to
+    txid?: string;
+    details?: string;
+    signature: string; // Hex BIP340 signature over the id
+}
+
+/**
+ * A piece of evidence in a dispute, stored with the hash of its content
+ */
+export interface DisputeEvidence {
+    author: string;
+    timestamp: number;
+    text?: string;
+    file?: {
+        name: string;
+        mimeType: string;
+        data: string; // Base64 contents
+    };
+    hash: string; // Hex sha256 of the text or the file contents
+}
+
+/**
+ * An arbitrator's decision on a dispute
+ */
+export interface DisputeRuling {
+    arbitrator: string;
+    timestamp: number;
+    decision: 'release' | 'refund' | 'split';
+    split?: PayoutSplit; // Buyer/seller split when the decision is a split
+    reasoning: string;
+}
+
+export interface Dispute {
+    openedBy: string;
+    reason: string;
+    timestamp: number;
+    evidence: DisputeEvidence[];
+    ruling?: DisputeRuling;
+}
+
 export interface EscrowContract {
     arkAddress: string;
     buyer: User;
     seller: User;
-    arbitrator: User;
+    arbitrators: User[];
+    arbitratorThreshold: number; // Number of arbitrators that act for the arbitrator role
+    amount?: number; // Agreed escrow amount in sats (absent on contracts created before it existed)
+    arbitratorFee?: ArbitratorFeeTerms;
+    milestones?: Milestone[]; // Ordered deliverables; the amount is their sum
     description: string;
     timestamp: number;
+    refundDeadline?: number; // Unix timestamp (seconds) after which the buyer alone can reclaim funds
+    deliveryHash?: string; // Hex hash160 of the delivery secret the seller reveals to claim funds
+    unilateralDelays?: UnilateralDelays; // Falls back to the server exit delay when absent
+    nonce?: string; // Hex per-contract nonce committed in the script so every contract gets its own address
+    server?: ServerTerms; // Falls back to the connected server when absent
+    acceptances?: ContractAcceptance[]; // Every party must accept the terms before the escrow can be funded
+    version?: number; // Bumped by every applied amendment (absent means the original terms)
+    amendments?: ContractAmendment[]; // Version history, the last entry possibly still awaiting signatures
+    predecessor?: string; // Escrow address this contract's funds migrate from
+    successor?: string; // Escrow address the funds migrate to after a script amendment
+    auditLog?: AuditEntry[]; // Append-only, entries are never removed once seen
+    dispute?: Dispute;
     pendingTransaction?: {
         action: string;
         initiator: string;
+        arbitrators?: string[]; // Arbitrator subset whose leaf the transaction spends through
+        split?: Payout; // Proposed payout of a direct settlement or arbitrated split
         timestamp: number;
-        status: 'pending_cosign' | 'approved' | 'rejected';
+        expiresAt?: number; // Cosigning must complete before this time (ms), or the proposal is cleared
+        status: 'pending_cosign' | 'approved' | 'rejected' | 'cancelled' | 'submitted' | 'finalized'; // Cancelled proposals stay until expiry so stale copies can't revive them
+        arkTxid?: string; // Set once the server accepted the transaction, so finalization can resume
         partialTx?: {
-            vtxo: {
+            vtxos: {
                 txid: string;
                 vout: number;
                 value: number;
-            };
+            }[]; // Every escrow output the transaction spends
             arkTx: number[] | Uint8Array; // The Ark transaction as PSBT (array for storage, Uint8Array for processing)
             checkpoints: (number[] | Uint8Array)[]; // Checkpoint transactions as PSBTs (arrays for storage, Uint8Arrays for processing)
             requiredSigners: string[];
             initiatorSigned: boolean;
             approvals: string[]; // List of pubkeys who have approved
             rejections: string[]; // List of pubkeys who have rejected
+            onchain?: boolean; // arkTx is an on-chain exit spend of the unrolled output, broadcast instead of submitted
         };
     };
 }
 
+/**
+ * Contract terms a party can propose to change
+ */
+export type AmendableTerms = Partial<Pick<EscrowContract,
+    | 'description' | 'amount' | 'milestones' | 'arbitratorFee'
+    | 'refundDeadline' | 'deliveryHash' | 'arbitrators' | 'arbitratorThreshold' | 'unilateralDelays'
+>>;
+
+/**
+ * A proposed change to a contract's terms, signed by every party before it applies
+ */
+export interface ContractAmendment {
+    version: number; // Contract version the amendment produces
+    changes: AmendableTerms;
+    previous: AmendableTerms; // The values the changes replace
+    proposer: string;
+    timestamp: number;
+    acceptances: ContractAcceptance[]; // Signatures over the amended terms hash
+    status: 'proposed' | 'applied' | 'rejected';
+    successor?: string; // Escrow address of the amended contract when a script parameter changed
+    replacedArbitrator?: string; // Pubkey of an unavailable arbitrator swapped out; only buyer and seller sign
+}
+
+/**
+ * Result of recomputing a contract's escrow address from its stored terms
+ */
+export type ContractVerification = 'verified' | 'tampered' | 'unverified';
+
 export interface EscrowState {
-    status: 'created' | 'funded' | 'executed';
-    balance?: number;
+    status:
+        | 'proposed' // Waiting for every party to accept the terms
+        | 'awaiting_funding' | 'partially_funded' | 'funded' | 'overfunded'
+        | 'disputed' // Funded, and a party has opened a dispute
+        | 'released' | 'refunded' | 'settled_direct' | 'unilaterally_exited'
+        | 'migrated' // Moved to the successor contract after an amendment
+        | 'executed'; // Spent through a leaf that couldn't be identified
+    balance?: number; // Still held by the escrow
+    released?: number; // Paid out of the escrow so far, across all spends
+    swept?: number; // Unspent but expired and swept by the server, so no escrow leaf can spend it
+    milestones?: MilestoneStatus[]; // Progress of each milestone, in contract order
     vtxoExists: boolean;
+    unrolled?: boolean; // The escrow VTXO has been unrolled on-chain and can only leave through an exit leaf
+    spendTxid?: string; // Transaction that spent the escrow
+    spentAt?: number; // When the escrow was spent (ms timestamp)
+}
+
+/**
+ * One signer's partial signatures on a pending transaction, as found in its PSBTs
+ */
+export interface SignatureCheck {
+    pubkey: string;
+    status: 'valid' | 'invalid' | 'missing';
+}
+
+/**
+ * Decoded pending transaction, checked against the action it claims to perform
+ */
+export interface TransactionReview {
+    inputs: {
+        outpoint: string;
+        value: number;
+        leaf: string; // Name of the spending path, or 'unknown'
+        ok: boolean;
+    }[];
+    outputs: {
+        amount: number;
+        recipient: string; // Party, escrow or anchor the script resolves to
+        ok: boolean;
+    }[];
+    fee?: number; // Mining fee of an on-chain exit
+    problems: string[]; // Empty when the transaction does what its action says
 }
 
 export interface WalletInfo {
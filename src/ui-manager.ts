@@ -1,4 +1,5 @@
-import { User } from './types';
+import { base64 } from '@scure/base';
+import { AmendableTerms, ArbitratorFeeTerms, ContractAmendment, User } from './types';
 import { WalletManager } from './wallet-manager';
 import { UserManager } from './user-manager';
 import { ContractManager } from './contract-manager';
@@ -354,7 +355,7 @@ export class UIManager {
     }
 
     updateContractSelects(users: User[]): void {
-        const selects = [this.elements.buyerSelect, this.elements.sellerSelect, this.elements.arbitratorSelect];
+        const selects = [this.elements.buyerSelect, this.elements.sellerSelect];
         
         selects.forEach(select => {
             // Store the currently selected value before updating
@@ -378,6 +379,18 @@ export class UIManager {
                 // No need to explicitly check if the option exists
             }
         });
+
+        // The arbitrator panel is a multi-select, so restore every selected option
+        const arbitratorSelect: HTMLSelectElement = this.elements.arbitratorSelect;
+        const selectedArbitrators = new Set(Array.from(arbitratorSelect.selectedOptions).map(option => option.value));
+        arbitratorSelect.innerHTML = '';
+        users.forEach((user: User) => {
+            const option = document.createElement('option');
+            option.value = user.pubkey;
+            option.textContent = user.name;
+            option.selected = selectedArbitrators.has(user.pubkey);
+            arbitratorSelect.appendChild(option);
+        });
     }
 
     private getUserNameByPubkey(pubkey: string): string {
@@ -410,9 +423,148 @@ export class UIManager {
             
             const userRole = this.userManager.getCurrentUserRole(contract, currentWallet);
             const state = await this.contractManager.getEscrowState(contract);
-            const availableActions = this.contractManager.getAvailableActions(state, userRole);
-            
-            const actionsHtml = availableActions.length > 0 
+            const availableActions = this.contractManager.getAvailableActions(contract, state, userRole);
+            const serverMismatch = this.contractManager.getServerMismatch(contract);
+            const verification = this.contractManager.verifyContract(contract);
+            const verificationBadge = {
+                verified: '<span class="badge badge-success" title="Address matches the contract terms">✓ Verified</span>',
+                tampered: '<span class="badge badge-danger" title="Address does not match the contract terms">✗ Tampered</span>',
+                unverified: '<span class="badge badge-secondary" title="Connect to a server to verify">Unverified</span>',
+            }[verification];
+            
+            // Funding progress towards the agreed amount (partial releases count as funded), until the escrow is spent
+            const balance = state.balance ?? 0;
+            const funded = balance + (state.released ?? 0);
+            const fundingHtml = contract.amount !== undefined && !state.spendTxid
+                ? `
+                    <p><strong>Funded:</strong> ${funded} / ${Number(contract.amount)} sats (${Math.floor(funded / contract.amount * 100)}%)</p>
+                    <div class="funding-progress ${state.status}">
+                        <div class="funding-progress-bar" style="width: ${Math.min(100, funded / contract.amount * 100)}%"></div>
+                    </div>
+                `
+                : (balance > 0 ? `<p><strong>Balance:</strong> ${balance} sats</p>` : '');
+
+            // Milestone overview: what each milestone is, and whether it is funded and released
+            const milestonesHtml = contract.milestones
+                ? `
+                    <p><strong>Milestones:</strong></p>
+                    <ol class="milestone-list">
+                        ${contract.milestones.map((milestone, milestoneIndex) => {
+                            const milestoneStatus = state.milestones?.[milestoneIndex] ?? 'awaiting_funding';
+                            const overdue = milestoneStatus !== 'released' && milestone.deadline !== undefined && Date.now() / 1000 >= milestone.deadline;
+                            return `<li class="${milestoneStatus}${overdue ? ' overdue' : ''}">
+                                ${this.escapeHtml(milestone.description)}: ${Number(milestone.amount)} sats, ${milestoneStatus.replace(/_/g, ' ')}
+                                ${milestone.deadline !== undefined ? ` (due ${new Date(milestone.deadline * 1000).toLocaleDateString()}${overdue ? ', overdue' : ''})` : ''}
+                            </li>`;
+                        }).join('')}
+                    </ol>
+                `
+                : '';
+
+            // Which parties have signed the terms
+            const pendingAcceptances = this.contractManager.getPendingAcceptances(contract);
+            const parties = [contract.buyer, contract.seller, ...contract.arbitrators];
+            const acceptanceHtml = `<p><strong>Accepted by:</strong> ${parties.map(party =>
+                pendingAcceptances.includes(party.pubkey) ? `${party.name} (pending)` : `${party.name} ✓`
+            ).join(', ')}</p>`;
+
+            // Version history and the amendment awaiting signatures
+            const pendingAmendment = this.contractManager.getPendingAmendment(contract);
+            const pendingSigners = pendingAmendment ? this.contractManager.getPendingAmendmentSignatures(contract, pendingAmendment) : [];
+            const pastAmendments = (contract.amendments ?? []).filter(amendment => amendment !== pendingAmendment);
+            const amendmentHtml = `
+                ${contract.version ? `<p><strong>Version:</strong> ${contract.version}</p>` : ''}
+                ${contract.predecessor ? `<p><strong>Amended from:</strong> <code>${this.escapeHtml(contract.predecessor)}</code></p>` : ''}
+                ${contract.successor ? `<p><strong>Superseded by:</strong> <code>${this.escapeHtml(contract.successor)}</code></p>` : ''}
+                ${pastAmendments.length > 0 ? `
+                    <p><strong>Amendments:</strong></p>
+                    <ul class="amendment-list">
+                        ${pastAmendments.map(amendment => `<li>v${amendment.version} ${this.escapeHtml(amendment.status)} (${new Date(amendment.timestamp).toLocaleString()}): ${this.formatAmendmentChanges(amendment)}</li>`).join('')}
+                    </ul>
+                ` : ''}
+                ${pendingAmendment ? `
+                    <div class="pending-tx pending_cosign">
+                        <p><strong>Proposed amendment to v${pendingAmendment.version}</strong> (by ${this.getUserNameByPubkey(pendingAmendment.proposer)})</p>
+                        <p>${pendingAmendment.replacedArbitrator
+                            ? `Replaces unavailable arbitrator ${this.getUserNameByPubkey(pendingAmendment.replacedArbitrator)}: ${this.formatAmendmentChanges(pendingAmendment)}`
+                            : this.formatAmendmentChanges(pendingAmendment)}</p>
+                        ${this.contractManager.changesScript(pendingAmendment) ? '<p>Changes the escrow script: funds migrate to a new address once applied</p>' : ''}
+                        <p>Waiting for: ${pendingSigners.map(pubkey => this.getUserNameByPubkey(pubkey)).join(', ')}</p>
+                    </div>
+                ` : ''}
+            `;
+
+            // Dispute thread: the reason, every piece of evidence and the ruling
+            const { dispute } = contract;
+            const disputeHtml = dispute
+                ? `
+                    <div class="dispute-thread">
+                        <p><strong>Dispute</strong> opened by ${this.escapeHtml(this.getUserNameByPubkey(dispute.openedBy))} on ${new Date(dispute.timestamp).toLocaleString()}</p>
+                        <p class="dispute-reason">${this.escapeHtml(dispute.reason)}</p>
+                        ${dispute.evidence.map(evidence => {
+                            const verified = this.contractManager.verifyEvidence(evidence);
+                            // Only verified files get a link, rebuilt from their decoded bytes
+                            const fileHtml = !evidence.file ? ''
+                                : verified
+                                    ? `<p>📎 <a download="${this.escapeHtml(evidence.file.name)}" href="data:${this.escapeHtml(evidence.file.mimeType)};base64,${base64.encode(base64.decode(evidence.file.data))}">${this.escapeHtml(evidence.file.name)}</a></p>`
+                                    : `<p>📎 ${this.escapeHtml(evidence.file.name)} (not downloadable)</p>`;
+                            return `
+                                <div class="dispute-evidence">
+                                    <p>
+                                        <strong>${this.escapeHtml(this.getUserNameByPubkey(evidence.author))}</strong> - ${new Date(evidence.timestamp).toLocaleString()}
+                                        ${verified
+                                            ? `<span class="audit-valid" title="sha256 ${this.escapeHtml(evidence.hash)}">✓ hash verified</span>`
+                                            : '<span class="audit-invalid">✗ content does not match its hash</span>'}
+                                    </p>
+                                    ${evidence.text ? `<p>${this.escapeHtml(evidence.text)}</p>` : ''}
+                                    ${fileHtml}
+                                </div>
+                            `;
+                        }).join('')}
+                        ${dispute.ruling
+                            ? `<p class="dispute-ruling"><strong>Ruling by ${this.escapeHtml(this.getUserNameByPubkey(dispute.ruling.arbitrator))}:</strong> ${this.escapeHtml(dispute.ruling.decision)}${dispute.ruling.split ? ` ${Number(dispute.ruling.split.buyer)}${dispute.ruling.split.unit === 'percent' ? '%' : ''}/${Number(dispute.ruling.split.seller)}${dispute.ruling.split.unit === 'percent' ? '%' : ' sats'}` : ''} - ${this.escapeHtml(dispute.ruling.reasoning)}</p>`
+                            : userRole && state.status === 'disputed'
+                            ? `
+                                <div class="evidence-form">
+                                    <textarea id="evidenceText-${index}" rows="2" placeholder="Statement"></textarea>
+                                    <input type="file" id="evidenceFile-${index}">
+                                    <button class="action-btn" onclick="window.arkApp.submitEvidence(${index})">Submit Evidence</button>
+                                </div>
+                            `
+                            : ''}
+                    </div>
+                `
+                : '';
+
+            // Signed history of everything that happened to the contract
+            const auditLog = this.contractManager.getAuditLog(contract);
+            const auditBadge = {
+                valid: '<span class="audit-valid" title="Signature verified">✓</span>',
+                invalid_signature: '<span class="audit-invalid" title="Signature does not verify">✗ invalid signature</span>',
+                missing_previous: '<span class="audit-invalid" title="An earlier entry this one follows is missing">⚠ missing previous entry</span>',
+                not_a_party: '<span class="audit-invalid" title="Signed by someone who is not a party to the contract">✗ not a party</span>',
+            };
+            const auditHtml = auditLog.length > 0
+                ? `
+                    <details class="audit-log">
+                        <summary>Audit log (${auditLog.length} entries${auditLog.some(({ verification }) => verification !== 'valid') ? ', some do not verify' : ''})</summary>
+                        <ul>
+                            ${auditLog.map(({ entry, verification }) => `
+                                <li>
+                                    ${auditBadge[verification]}
+                                    ${new Date(entry.timestamp).toLocaleString()}: <strong>${this.escapeHtml(this.getUserNameByPubkey(entry.author))}</strong>
+                                    ${this.escapeHtml(entry.type.replace(/_/g, ' '))}${entry.action ? ` ${this.escapeHtml(entry.action)}` : ''}${entry.details ? ` (${this.escapeHtml(entry.details)})` : ''}
+                                    ${entry.txid ? `<code>${this.escapeHtml(entry.txid.slice(0, 16))}...</code>` : ''}
+                                </li>
+                            `).join('')}
+                        </ul>
+                    </details>
+                `
+                : '';
+
+            const actionsHtml = verification === 'tampered'
+                ? '<p class="no-actions">Actions disabled: contract address does not match its terms</p>'
+                : availableActions.length > 0 
                 ? availableActions.map(action => 
                     `<button class="action-btn" onclick="window.arkApp.executeContractAction(${index}, '${action}')">${action}</button>`
                 ).join(' ')
@@ -433,41 +585,124 @@ export class UIManager {
                     partialTx.requiredSigners.includes(currentWallet.pubkey) && 
                     !partialTx.approvals.includes(currentWallet.pubkey) && 
                     !partialTx.rejections.includes(currentWallet.pubkey) &&
-                    pendingTransaction.status === 'pending_cosign';
+                    pendingTransaction.status === 'pending_cosign' &&
+                    !this.contractManager.isExpired(pendingTransaction);
+                const canCancel = currentWallet?.pubkey === pendingTransaction.initiator && pendingTransaction.status === 'pending_cosign';
+
+                // Proposals stop accepting signatures at their expiry
+                const expiry = this.contractManager.getExpiry(pendingTransaction);
+                const expiryHtml = pendingTransaction.status !== 'pending_cosign' ? ''
+                    : this.contractManager.isExpired(pendingTransaction)
+                        ? '<p class="status-rejected">✗ Expired - clearing...</p>'
+                        : `<p>Expires: ${new Date(expiry).toLocaleString()}</p>`;
                 
-                const approvalCount = partialTx.approvals.length;
-                const totalRequired = partialTx.requiredSigners.length + 1; // +1 for initiator
+                // Approvals are counted from the signatures in the PSBTs, not the approvals list
+                const signatureChecks = this.contractManager.verifyPartialSignatures(contract);
+                const approvalCount = signatureChecks.filter(check => check.status === 'valid').length;
+                const totalRequired = signatureChecks.length;
+                const signaturesHtml = signatureChecks.map(check => {
+                    const name = this.getUserNameByPubkey(check.pubkey);
+                    return {
+                        valid: `<span class="audit-valid">${name} ✓</span>`,
+                        invalid: `<span class="audit-invalid">${name} ✗ invalid signature</span>`,
+                        missing: `${name} (pending)`
+                    }[check.status];
+                }).join(', ');
+                
+                const arbitratorNames = pendingTransaction.arbitrators?.map(pubkey => this.escapeHtml(this.getUserNameByPubkey(pubkey))).join(', ');
+
+                // Cosigners see exactly where the escrow goes before approving
+                const { split } = pendingTransaction;
+                const payoutHtml = split ? `
+                    <p>Payout: ${this.escapeHtml(contract.buyer.name)} ${Number(split.buyer)} sats, ${this.escapeHtml(contract.seller.name)} ${Number(split.seller)} sats</p>
+                    ${split.remainder ? `<p>Kept in escrow: ${Number(split.remainder)} sats</p>` : ''}
+                    ${split.arbitratorFees ? `<p>Arbitrator fees: ${split.arbitratorFees.map(fee => `${this.escapeHtml(this.getUserNameByPubkey(fee.pubkey))} ${Number(fee.amount)} sats`).join(', ')}</p>` : ''}
+                ` : '';
+
+                // Decoded transaction, checked against the action before anyone cosigns
+                let reviewHtml = '';
+                if (pendingTransaction.status === 'pending_cosign') {
+                    const review = await this.contractManager.reviewPendingTransaction(contract);
+                    const mark = (ok: boolean) => ok ? '<span class="audit-valid">✓</span>' : '<span class="audit-invalid">✗</span>';
+                    reviewHtml = `
+                        <details class="tx-review" ${review.problems.length > 0 ? 'open' : ''}>
+                            <summary>Transaction review ${review.problems.length > 0 ? '<span class="badge badge-danger">✗ Mismatch</span>' : '<span class="badge badge-success">✓ Matches action</span>'}</summary>
+                            <p><strong>Inputs:</strong></p>
+                            <ul>
+                                ${review.inputs.map(input => `<li>${mark(input.ok)} ${input.outpoint.slice(0, 16)}... ${input.value} sats via ${input.leaf}</li>`).join('')}
+                            </ul>
+                            <p><strong>Outputs:</strong></p>
+                            <ul>
+                                ${review.outputs.map(output => `<li>${mark(output.ok)} ${output.amount} sats to ${this.escapeHtml(output.recipient)}</li>`).join('')}
+                            </ul>
+                            ${review.fee !== undefined ? `<p>Mining fee: ${review.fee} sats</p>` : ''}
+                            ${review.problems.map(problem => `<p class="status-rejected">${this.escapeHtml(problem)}</p>`).join('')}
+                        </details>
+                    `;
+                }
                 
                 pendingTxHtml = `
                     <div class="pending-tx ${pendingTransaction.status}">
                         <p><strong>Pending ${pendingTransaction.action}</strong> (initiated by ${initiatorName})</p>
-                        <p>Approvals: ${approvalCount}/${totalRequired}</p>
+                        ${arbitratorNames ? `<p>Arbitrators signing: ${arbitratorNames}</p>` : ''}
+                        ${payoutHtml}
+                        ${partialTx.onchain ? '<p>On-chain exit: broadcast once all parties have signed</p>' : ''}
+                        ${reviewHtml}
+                        <p>Approvals: ${approvalCount}/${totalRequired} (${signaturesHtml})</p>
+                        ${expiryHtml}
                         ${needsApproval ? `
                             <div class="pending-actions">
                                 <button class="btn btn-success" onclick="window.arkApp.approvePendingTransaction(${index})">✓ Approve</button>
                                 <button class="btn btn-danger" onclick="window.arkApp.rejectPendingTransaction(${index})">✗ Reject</button>
                             </div>
                         ` : ''}
+                        ${canCancel ? `
+                            <div class="pending-actions">
+                                <button class="btn btn-secondary" onclick="window.arkApp.cancelPendingTransaction(${index})">Cancel Proposal</button>
+                            </div>
+                        ` : ''}
                         ${pendingTransaction.status === 'approved' ? '<p class="status-approved">✓ Approved - Executing...</p>' : ''}
+                        ${pendingTransaction.status === 'submitted' ? `
+                            <p class="status-approved">Submitted as ${this.escapeHtml(pendingTransaction.arkTxid?.slice(0, 16) ?? '')}... - waiting for finalization</p>
+                            <div class="pending-actions">
+                                <button class="btn btn-primary" onclick="window.arkApp.finalizePendingTransaction(${index})">Finalize</button>
+                            </div>
+                        ` : ''}
+                        ${pendingTransaction.status === 'finalized' ? '<p class="status-approved">✓ Finalized</p>' : ''}
                         ${pendingTransaction.status === 'rejected' ? '<p class="status-rejected">✗ Rejected</p>' : ''}
+                        ${pendingTransaction.status === 'cancelled' ? '<p class="status-rejected">✗ Cancelled by the initiator</p>' : ''}
                     </div>
                 `;
             }
             
             contractDiv.innerHTML = `
                 <div class="contract-header">
-                    <h4>Contract #${index + 1}</h4>
-                    <span class="contract-status ${state.status}">${state.status}</span>
+                    <h4>Contract #${index + 1} ${verificationBadge}</h4>
+                    <span class="contract-status ${state.status}">${state.status.replace(/_/g, ' ')}</span>
                 </div>
                 <div class="contract-details">
                     <p><strong>Description:</strong> ${contract.description}</p>
                     <p><strong>Ark Address:</strong> <code>${contract.arkAddress || 'Not available'}</code></p>
-                    ${(state.balance && state.balance > 0) ? `<p><strong>Balance:</strong> ${state.balance} sats</p>` : ''}
+                    ${serverMismatch ? `<p class="server-mismatch">⚠️ ${serverMismatch}</p>` : ''}
+                    ${fundingHtml}
+                    ${milestonesHtml}
+                    ${state.released ? `<p><strong>Released:</strong> ${state.released} sats${state.balance ? `, ${state.balance} sats remaining` : ''}</p>` : ''}
+                    ${state.swept ? `<p class="status-rejected"><strong>Swept:</strong> ${state.swept} sats expired and were swept by the server, they can't be spent from the escrow</p>` : ''}
+                    ${state.spendTxid ? `<p><strong>Spent by:</strong> <code>${state.spendTxid}</code>${state.spentAt ? ` on ${new Date(state.spentAt).toLocaleString()}` : ''}</p>` : ''}
+                    ${state.unrolled ? '<p><strong>On-chain:</strong> unrolled, spendable through the exit paths once their delays elapse</p>' : ''}
+                    ${contract.refundDeadline !== undefined ? `<p><strong>Refund Deadline:</strong> ${new Date(contract.refundDeadline * 1000).toLocaleString()}${this.contractManager.isRefundDeadlinePassed(contract) ? ' (passed)' : ''}</p>` : ''}
+                    ${contract.deliveryHash ? `<p><strong>Delivery Hash:</strong> <code>${this.escapeHtml(contract.deliveryHash)}</code></p>` : ''}
+                    ${contract.unilateralDelays ? `<p><strong>Exit Delays:</strong> release ${Number(contract.unilateralDelays.release.value)}, refund ${Number(contract.unilateralDelays.refund.value)}, direct ${Number(contract.unilateralDelays.direct.value)} ${this.escapeHtml(contract.unilateralDelays.release.type)}</p>` : ''}
                     <p><strong>Buyer:</strong> ${contract.buyer.name}</p>
                     <p><strong>Seller:</strong> ${contract.seller.name}</p>
-                    <p><strong>Arbitrator:</strong> ${contract.arbitrator.name}</p>
+                    <p><strong>Arbitrators:</strong> ${contract.arbitrators.map(arbitrator => this.escapeHtml(arbitrator.name)).join(', ')} (${Number(contract.arbitratorThreshold)}-of-${contract.arbitrators.length})</p>
+                    ${acceptanceHtml}
+                    ${amendmentHtml}
+                    ${contract.arbitratorFee ? `<p><strong>Arbitrator Fee:</strong> ${this.escapeHtml(this.formatArbitratorFee(contract.arbitratorFee))}</p>` : ''}
                     ${userRole ? `<p><strong>Your Role:</strong> ${userRole}</p>` : ''}
+                    ${disputeHtml}
                     ${pendingTxHtml}
+                    ${auditHtml}
                 </div>
                 <div class="contract-actions">
                     ${actionsHtml}
@@ -478,10 +713,79 @@ export class UIManager {
         }
     }
 
+    /**
+     * Evidence and dispute text come from other parties, so never render it as markup
+     */
+    private escapeHtml(text: string): string {
+        // Peer data arrives as untyped JSON, so don't count on getting a string
+        return String(text)
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+    private formatAmendmentChanges(amendment: ContractAmendment): string {
+        return (Object.keys(amendment.changes) as (keyof AmendableTerms)[])
+            .map(key => `${this.escapeHtml(key)}: ${this.formatTerm(key, amendment.previous[key])} → ${this.formatTerm(key, amendment.changes[key])}`)
+            .join(', ');
+    }
+
+    /**
+     * Render an amended term as escaped HTML: the values come from other parties
+     */
+    private formatTerm<K extends keyof AmendableTerms>(key: K, value: AmendableTerms[K]): string {
+        if (value === undefined || value === null) return 'none';
+        const term: AmendableTerms = { [key]: value };
+        let text: string;
+        switch (key) {
+            case 'arbitrators':
+                text = term.arbitrators!.map(arbitrator => arbitrator.name).join(', ');
+                break;
+            case 'refundDeadline':
+                text = new Date(term.refundDeadline! * 1000).toLocaleString();
+                break;
+            case 'arbitratorFee':
+                text = this.formatArbitratorFee(term.arbitratorFee!);
+                break;
+            case 'milestones':
+                text = `${term.milestones!.length} milestones`;
+                break;
+            case 'unilateralDelays': {
+                const { release, refund, direct } = term.unilateralDelays!;
+                text = `release ${release.value}, refund ${refund.value}, direct ${direct.value} ${release.type}`;
+                break;
+            }
+            case 'amount':
+                text = `${term.amount} sats`;
+                break;
+            default:
+                text = String(value);
+        }
+        return this.escapeHtml(text);
+    }
+
+    private formatArbitratorFee(terms: ArbitratorFeeTerms): string {
+        const fee = terms.kind === 'flat' ? `${terms.value} sats` : `${terms.value / 100}% (${terms.value} bps)`;
+        return `${fee}, ${terms.directSettleDiscount}% waived on undisputed direct settlement`;
+    }
+
     clearContractForm(): void {
         this.elements.buyerSelect.value = '';
         this.elements.sellerSelect.value = '';
-        this.elements.arbitratorSelect.value = '';
+        Array.from(this.elements.arbitratorSelect.options as HTMLOptionsCollection).forEach(option => option.selected = false);
+        this.elements.arbitratorThreshold.value = '1';
+        this.elements.contractAmount.value = '';
+        this.elements.contractMilestones.value = '';
+        this.elements.arbitratorFeeValue.value = '';
+        this.elements.arbitratorFeeKind.value = 'flat';
+        this.elements.directSettleDiscount.value = '100';
+        this.elements.refundDeadline.value = '';
+        this.elements.deliveryHash.value = '';
+        this.elements.unilateralReleaseDelay.value = '';
+        this.elements.unilateralRefundDelay.value = '';
+        this.elements.unilateralDirectDelay.value = '';
         this.elements.contractDescription.value = '';
     }
 
@@ -492,6 +796,7 @@ export class UIManager {
     updateServerUI(isConnected: boolean): void {
         const statusElement = document.getElementById('serverStatus') as HTMLDivElement;
         const serverUrlInput = document.getElementById('arkServerUrl') as HTMLInputElement;
+        const esploraUrlInput = document.getElementById('esploraUrl') as HTMLInputElement;
         const connectButton = document.getElementById('connectServer') as HTMLButtonElement;
         
         if (isConnected) {
@@ -504,8 +809,9 @@ export class UIManager {
                 <span class="badge badge-info">${networkInfo}</span>
             `;
             
-            // Disable input field
+            // Disable input fields
             serverUrlInput.disabled = true;
+            esploraUrlInput.disabled = true;
             
             // Update button text and style
             connectButton.textContent = 'Disconnect';
@@ -515,8 +821,9 @@ export class UIManager {
             // Clear status text
             statusElement.innerHTML = '';
             
-            // Enable input field
+            // Enable input fields
             serverUrlInput.disabled = false;
+            esploraUrlInput.disabled = false;
             
             // Update button text and style
             connectButton.textContent = 'Connect';
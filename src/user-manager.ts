@@ -95,7 +95,7 @@ export class UserManager {
         
         if (contract.buyer.pubkey === currentPubkey) return 'buyer';
         if (contract.seller.pubkey === currentPubkey) return 'seller';
-        if (contract.arbitrator.pubkey === currentPubkey) return 'arbitrator';
+        if (contract.arbitrators.some(arbitrator => arbitrator.pubkey === currentPubkey)) return 'arbitrator';
         
         return null;
     }
@@ -145,7 +145,10 @@ export class WalletManager {
         }
     }
 
-    async sendTransaction(address: string, amount?: number): Promise<void> {
+    /**
+     * @returns The Ark txid, or undefined when nothing was sent
+     */
+    async sendTransaction(address: string, amount?: number): Promise<string | undefined> {
         if (!this.currentWallet) {
             this.notificationManager.showError('No wallet available');
             return;
@@ -181,6 +184,7 @@ export class WalletManager {
             console.log('Send result:', result);
             
             this.notificationManager.showSuccess(`Transaction sent successfully!`);
+            return result;
         } catch (error) {
             console.error('Transaction failed:', error);
             this.notificationManager.showError('Transaction failed');